@@ -0,0 +1,504 @@
+#!/usr/bin/env -S deno run --allow-all
+
+/**
+ * Command-line front end for the @vsce/bundler package.
+ *
+ * @example Bundling an extension
+ * ```sh
+ * deno run -A jsr:@vsce/bundler@^1/cli.ts ./path/to/extension --minify
+ * ```
+ *
+ * @example Auditing web compatibility
+ * ```sh
+ * deno run -A jsr:@vsce/bundler@^1/cli.ts validate ./path/to/extension
+ * ```
+ *
+ * @example Linting the extension manifest
+ * ```sh
+ * deno run -A jsr:@vsce/bundler@^1/cli.ts lint ./path/to/extension
+ * ```
+ *
+ * @example Building and packaging a .vsix
+ * ```sh
+ * deno run -A jsr:@vsce/bundler@^1/cli.ts package ./path/to/extension --minify
+ * ```
+ *
+ * @module
+ */
+
+import { parseArgs } from '@std/cli/parse-args';
+import { join, resolve } from '@std/path';
+
+import {
+	analyzeManifest,
+	analyzeWebCompatibility,
+	BudgetExceededError,
+	bundleExtension,
+	type BundleResult,
+	type CompatIssue,
+	formatCompatIssuesJson,
+	formatCompatIssuesSarif,
+	ndjsonReporter,
+	packageExtension,
+	silentReporter,
+} from './mod.ts';
+
+/** Exit code for a successful run. */
+const EXIT_OK = 0;
+
+/** Exit code when the build fails or the audit reports issues. */
+const EXIT_FAILURE = 1;
+
+/** Exit code for invalid command-line usage. */
+const EXIT_USAGE = 2;
+
+/** Exit code when a bundle exceeds its size budget. */
+const EXIT_BUDGET = 3;
+
+const COMMANDS = ['build', 'validate', 'lint', 'package'] as const;
+
+const BUNDLERS = ['emit', 'esbuild'] as const;
+
+const MINIFIERS = ['esbuild', 'terser'] as const;
+
+const FORMATS = ['text', 'json', 'sarif'] as const;
+
+const VALIDATE_MODES = ['off', 'warn', 'error'] as const;
+
+const TYPE_CHECK_MODES = ['off', 'warn', 'error'] as const;
+
+const REPORTERS = ['pretty', 'ndjson', 'silent'] as const;
+
+const LOCK_POLICIES = ['wait', 'fail', 'off'] as const;
+
+const TARGETS = ['node', 'webworker'] as const;
+
+const SOURCEMAP_MODES = ['none', 'inline', 'external', 'hidden'] as const;
+
+const USAGE = `Usage:
+  cli.ts [build] [projectDir] [options]   Bundle the extension (default)
+  cli.ts validate [projectDir] [options]  Audit web compatibility
+  cli.ts lint [projectDir] [options]      Check package.json against the code
+  cli.ts package [projectDir] [options]   Bundle the extension and write a .vsix
+
+projectDir defaults to the current working directory.
+
+Options:
+  --entry <file>        Entry point relative to projectDir (default: extension.ts)
+  --out-dir <dir>       Output directory relative to projectDir (default: out)
+  --out-file <file>     Output filename (default: extension.js)
+  --bundler <name>      Bundler backend: emit | esbuild (default: emit)
+  --minify              Minify the bundle
+  --minifier <name>     Minifier engine: esbuild | terser (default: esbuild)
+  --sourcemap <mode>    Source map: none | inline | external | hidden
+                        (default: external when minifying, else none)
+  --sources-content     Embed the original sources in the source map
+  --analyze             Write a per-module size report (JSON and HTML)
+                        into the output directory
+  --define <name=expr>  Substitute a constant at bundle time, e.g.
+                        --define __DEV__=false; repeat for several
+  --max-size <bytes>    Fail if a bundle is larger (size budget)
+  --max-gzip-size <bytes>
+                        Fail if a gzipped bundle is larger
+  --max-growth <pct>    Fail if a bundle grew by more than pct percent
+                        since the previous build
+  --lock <policy>       When another build writes the same outDir:
+                        wait | fail | off (default: wait)
+  --lock-timeout <ms>   How long to wait for the other build
+                        (default: 60000)
+  --manifest            Take outputs and language level from package.json
+                        ("main", "browser", "engines.vscode")
+  --external <name>     Keep a host-provided module out of the bundle;
+                        repeat for several (default: vscode)
+  --target <name>       Build for an extension host: node | webworker;
+                        repeat to build several targets at once
+  --no-cache            Always rebuild, ignoring the incremental build cache
+  --offline             Resolve remote modules only from vendor/ and the
+                        Deno module cache, never from the network
+  --verbose             Show diagnostic and timing information
+  --quiet               Suppress all non-error output
+  --reporter <name>     Build output: pretty | ndjson | silent
+                        (default: pretty); ndjson prints one JSON
+                        build event per line
+  --validate <mode>     Audit web compatibility during the build:
+                        off | warn | error (default: off)
+  --type-check <mode>   Type-check the entry point's module graph first:
+                        off | warn | error (default: off)
+  --format <name>       validate/lint output: text | json | sarif
+                        (default: text)
+  --vsix <file>         package output relative to projectDir
+                        (default: <name>-<version>.vsix)
+  -h, --help            Show this help
+
+Exit codes:
+  0  success
+  1  build failed or compatibility/manifest errors found
+  2  invalid usage
+  3  a bundle exceeds its size budget`;
+
+/**
+ * Output sinks used by the CLI (defaults to the console).
+ */
+export interface CliIO {
+	/** Standard output sink. */
+	log: (message: string) => void;
+	/** Error output sink. */
+	error: (message: string) => void;
+}
+
+/**
+ * Run the command line with the given arguments.
+ *
+ * @param args Command-line arguments, excluding the executable and script
+ * @param io Output sinks (defaults to `console.log` / `console.error`)
+ * @param signal Cancels a running build
+ * @returns The process exit code
+ */
+export async function main(
+	args: string[],
+	io: CliIO = { log: console.log, error: console.error },
+	signal?: AbortSignal,
+): Promise<number> {
+	let unknownFlag: string | undefined;
+	const flags = parseArgs(args, {
+		boolean: [
+			'minify',
+			'sources-content',
+			'analyze',
+			'cache',
+			'offline',
+			'manifest',
+			'verbose',
+			'quiet',
+			'help',
+		],
+		string: [
+			'entry',
+			'out-dir',
+			'out-file',
+			'bundler',
+			'minifier',
+			'sourcemap',
+			'format',
+			'validate',
+			'type-check',
+			'reporter',
+			'target',
+			'external',
+			'vsix',
+			'max-size',
+			'max-gzip-size',
+			'max-growth',
+			'lock',
+			'lock-timeout',
+			'define',
+		],
+		collect: ['target', 'external', 'define'],
+		negatable: ['cache'],
+		alias: { h: 'help' },
+		default: { cache: true },
+		unknown: (arg: string) => {
+			if (!arg.startsWith('-')) return true;
+			unknownFlag ??= arg;
+			return false;
+		},
+	});
+
+	if (flags.help) {
+		io.log(USAGE);
+		return EXIT_OK;
+	}
+	if (unknownFlag) {
+		io.error(`Unknown option: ${unknownFlag}\n\n${USAGE}`);
+		return EXIT_USAGE;
+	}
+
+	const positional = flags._.map(String);
+	const command = (COMMANDS as readonly string[]).includes(positional[0])
+		? positional.shift()!
+		: 'build';
+	if (positional.length > 1) {
+		io.error(`Unexpected argument: ${positional[1]}\n\n${USAGE}`);
+		return EXIT_USAGE;
+	}
+
+	const bundler = flags.bundler ?? 'emit';
+	if (!(BUNDLERS as readonly string[]).includes(bundler)) {
+		io.error(
+			`Invalid --bundler '${bundler}' (expected ${
+				BUNDLERS.join(' or ')
+			})`,
+		);
+		return EXIT_USAGE;
+	}
+
+	const minifier = flags.minifier ?? 'esbuild';
+	if (!(MINIFIERS as readonly string[]).includes(minifier)) {
+		io.error(
+			`Invalid --minifier '${minifier}' (expected ${
+				MINIFIERS.join(' or ')
+			})`,
+		);
+		return EXIT_USAGE;
+	}
+
+	const sourcemap = flags.sourcemap;
+	if (
+		sourcemap !== undefined &&
+		!(SOURCEMAP_MODES as readonly string[]).includes(sourcemap)
+	) {
+		io.error(
+			`Invalid --sourcemap '${sourcemap}' (expected ${
+				SOURCEMAP_MODES.join(', ')
+			})`,
+		);
+		return EXIT_USAGE;
+	}
+
+	const format = flags.format ?? 'text';
+	if (!(FORMATS as readonly string[]).includes(format)) {
+		io.error(
+			`Invalid --format '${format}' (expected ${FORMATS.join(', ')})`,
+		);
+		return EXIT_USAGE;
+	}
+
+	const validate = flags.validate ?? 'off';
+	if (!(VALIDATE_MODES as readonly string[]).includes(validate)) {
+		io.error(
+			`Invalid --validate '${validate}' (expected ${
+				VALIDATE_MODES.join(', ')
+			})`,
+		);
+		return EXIT_USAGE;
+	}
+
+	const typeCheck = flags['type-check'] ?? 'off';
+	if (!(TYPE_CHECK_MODES as readonly string[]).includes(typeCheck)) {
+		io.error(
+			`Invalid --type-check '${typeCheck}' (expected ${
+				TYPE_CHECK_MODES.join(', ')
+			})`,
+		);
+		return EXIT_USAGE;
+	}
+
+	const reporter = flags.reporter ?? 'pretty';
+	if (!(REPORTERS as readonly string[]).includes(reporter)) {
+		io.error(
+			`Invalid --reporter '${reporter}' (expected ${
+				REPORTERS.join(', ')
+			})`,
+		);
+		return EXIT_USAGE;
+	}
+	// Only the pretty reporter shares the output with the summary lines
+	const quiet = flags.quiet || reporter !== 'pretty';
+
+	const targets: string[] = flags.target;
+	const invalidTarget = targets.find((target) =>
+		!(TARGETS as readonly string[]).includes(target)
+	);
+	if (invalidTarget) {
+		io.error(
+			`Invalid --target '${invalidTarget}' (expected ${
+				TARGETS.join(' or ')
+			})`,
+		);
+		return EXIT_USAGE;
+	}
+
+	const budget: Record<string, number> = {};
+	for (
+		const [flag, field] of [
+			['max-size', 'maxSize'],
+			['max-gzip-size', 'maxGzipSize'],
+			['max-growth', 'maxGrowthPercent'],
+		] as const
+	) {
+		const value = flags[flag];
+		if (value === undefined) continue;
+		const limit = Number(value);
+		if (value === '' || !Number.isFinite(limit) || limit < 0) {
+			io.error(`Invalid --${flag} '${value}' (expected a number)`);
+			return EXIT_USAGE;
+		}
+		budget[field] = limit;
+	}
+
+	const lock = flags.lock ?? 'wait';
+	if (!(LOCK_POLICIES as readonly string[]).includes(lock)) {
+		io.error(
+			`Invalid --lock '${lock}' (expected ${LOCK_POLICIES.join(', ')})`,
+		);
+		return EXIT_USAGE;
+	}
+	const lockTimeout = flags['lock-timeout'];
+	const lockTimeoutMs = lockTimeout === undefined
+		? undefined
+		: Number(lockTimeout);
+	if (
+		lockTimeoutMs !== undefined &&
+		(lockTimeout === '' || !Number.isFinite(lockTimeoutMs) ||
+			lockTimeoutMs < 0)
+	) {
+		io.error(`Invalid --lock-timeout '${lockTimeout}' (expected a number)`);
+		return EXIT_USAGE;
+	}
+
+	const define: Record<string, string> = {};
+	for (const entry of flags.define as string[]) {
+		const separator = entry.indexOf('=');
+		if (separator <= 0) {
+			io.error(`Invalid --define '${entry}' (expected name=expression)`);
+			return EXIT_USAGE;
+		}
+		define[entry.slice(0, separator)] = entry.slice(separator + 1);
+	}
+
+	const projectDir = resolve(positional[0] ?? Deno.cwd());
+	const entryPoint = flags.entry ?? 'extension.ts';
+
+	if (command === 'validate' || command === 'lint') {
+		let issues: CompatIssue[];
+		try {
+			issues = command === 'validate'
+				? await analyzeWebCompatibility(join(projectDir, entryPoint))
+				: await analyzeManifest(projectDir, { entryPoint });
+		} catch (err) {
+			io.error(err instanceof Error ? err.message : String(err));
+			return EXIT_FAILURE;
+		}
+		const subject = command === 'validate'
+			? 'web compatibility'
+			: 'manifest';
+		if (format === 'json') {
+			io.log(formatCompatIssuesJson(issues));
+		} else if (format === 'sarif') {
+			io.log(formatCompatIssuesSarif(issues, { baseDir: Deno.cwd() }));
+		} else {
+			for (const issue of issues) io.error(formatIssueLine(issue));
+			if (issues.length > 0) {
+				io.error(`Found ${issues.length} ${subject} issue(s)`);
+			} else if (!flags.quiet) {
+				io.log(`No ${subject} issues found`);
+			}
+		}
+		return issues.some((issue) => issue.severity === 'error')
+			? EXIT_FAILURE
+			: EXIT_OK;
+	}
+
+	try {
+		const result = await bundleExtension({
+			projectDir,
+			entryPoint,
+			outDir: flags['out-dir'],
+			outFile: flags['out-file'],
+			bundler: bundler as typeof BUNDLERS[number],
+			minify: flags.minify,
+			minifier: minifier as typeof MINIFIERS[number],
+			sourcemap: sourcemap as typeof SOURCEMAP_MODES[number] | undefined,
+			sourcesContent: flags['sources-content'],
+			analyze: flags.analyze,
+			budget: Object.keys(budget).length > 0 ? budget : undefined,
+			define: Object.keys(define).length > 0 ? define : undefined,
+			targets: targets.length > 0
+				? targets as typeof TARGETS[number][]
+				: undefined,
+			useCache: flags.cache,
+			offline: flags.offline,
+			manifest: flags.manifest,
+			external: flags.external.length > 0 ? flags.external : undefined,
+			validate: validate as typeof VALIDATE_MODES[number],
+			typeCheck: typeCheck as typeof TYPE_CHECK_MODES[number],
+			verbose: flags.verbose,
+			quiet: flags.quiet,
+			log: io.log,
+			logError: io.error,
+			lock: lock as typeof LOCK_POLICIES[number],
+			lockTimeoutMs,
+			signal,
+			reporters: reporter === 'ndjson'
+				? [ndjsonReporter(io.log)]
+				: reporter === 'silent'
+				? [silentReporter()]
+				: undefined,
+		});
+		if (!quiet) {
+			io.log(
+				`${result.bundlePath} (${result.size} bytes${
+					result.fromCache ? ', cached' : ''
+				})`,
+			);
+		}
+		if (command === 'package') {
+			return await writePackage(
+				projectDir,
+				result,
+				flags.vsix,
+				io,
+				quiet,
+			);
+		}
+		return EXIT_OK;
+	} catch (err) {
+		// The reporter already reported the failure
+		return err instanceof BudgetExceededError ? EXIT_BUDGET : EXIT_FAILURE;
+	}
+}
+
+/**
+ * Package a finished build and report the packaged files.
+ */
+async function writePackage(
+	projectDir: string,
+	bundle: BundleResult,
+	outFile: string | undefined,
+	io: CliIO,
+	quiet: boolean,
+): Promise<number> {
+	try {
+		const result = await packageExtension({ projectDir, bundle, outFile });
+		if (!quiet) {
+			for (const file of result.files) {
+				io.log(`  ${file.path} (${file.size} bytes)`);
+			}
+			io.log(
+				`${result.vsixPath} (${result.files.length} files, ${result.size} bytes)`,
+			);
+		}
+		return EXIT_OK;
+	} catch (err) {
+		io.error(err instanceof Error ? err.message : String(err));
+		return EXIT_FAILURE;
+	}
+}
+
+/**
+ * Render an issue for terminal output, e.g.
+ * `ext/extension.ts:1:30 error [node-builtin-import] imports … 'fs'`.
+ */
+function formatIssueLine(issue: CompatIssue): string {
+	const location = `${issue.file}:${issue.line}:${issue.column}`;
+	const line =
+		`${location} ${issue.severity} [${issue.ruleId}] ${issue.message}`;
+	const details = [
+		issue.suggestion,
+		issue.importChain && issue.importChain.length > 1
+			? `imported via ${issue.importChain.join(' → ')}`
+			: undefined,
+	].filter(Boolean);
+	return [line, ...details].join('\n  ');
+}
+
+if (import.meta.main) {
+	// Ctrl+C stops the build between phases, releasing the outDir lock; a
+	// second one exits right away
+	const controller = new AbortController();
+	Deno.addSignalListener('SIGINT', () => {
+		if (controller.signal.aborted) Deno.exit(130);
+		controller.abort();
+	});
+	Deno.exit(await main(Deno.args, undefined, controller.signal));
+}
@@ -0,0 +1,377 @@
+/**
+ * Bundle size analysis for the @vsce/bundler package.
+ *
+ * Attributes every byte of a written bundle to the input module it was
+ * generated from, using the source map chained through all build steps, and
+ * groups the modules by package (JSR, npm or URL dependency, or the project's
+ * own files). The result is written next to the bundle as a JSON report and a
+ * self-contained HTML treemap, so that a growing bundle can be traced to the
+ * dependency that grew.
+ *
+ * @module
+ */
+
+import { brotliCompressSync, gzipSync } from "node:zlib";
+import { fromFileUrl, join, relative, resolve, SEPARATOR, toFileUrl } from "@std/path";
+
+import type {
+  AnalyzedSizeInfo,
+  BundleAnalysis,
+  BundleTarget,
+  ModuleKind,
+  ModuleSize,
+  PackageSize,
+  SizeInfo,
+} from "../types.ts";
+import { writeFileAtomic } from "./output.ts";
+import { decodeMappings, type SourceMap } from "./sourcemap.ts";
+
+/** File names of the reports inside the output directory. @internal */
+export const REPORT_FILES = {
+  json: "bundle-report.json",
+  html: "bundle-report.html",
+} as const;
+
+/** Version of the JSON report layout. */
+const REPORT_VERSION = 1;
+
+/** Module and package name of code without a source. */
+const GENERATED = "(generated)";
+
+/** Package name of the project's own files. */
+const LOCAL = "(local)";
+
+/** Code attributed to one module. */
+interface ModuleCode {
+  kind: ModuleKind;
+  package?: string;
+  chunks: string[];
+}
+
+/** Package a module is grouped under in the report. */
+function groupName(module: { kind: ModuleKind; package?: string }): string {
+  return module.package ?? (module.kind === "local" ? LOCAL : GENERATED);
+}
+
+/**
+ * Raw and gzip size of `text`.
+ * @internal
+ */
+export function measure(text: string): SizeInfo {
+  const bytes = new TextEncoder().encode(text);
+  return { raw: bytes.length, gzip: gzipSync(bytes).length };
+}
+
+/**
+ * Raw, gzip and brotli size of `text`. Brotli at its highest quality is slow,
+ * so only the size analysis measures it.
+ */
+function measureAnalyzed(text: string): AnalyzedSizeInfo {
+  const bytes = new TextEncoder().encode(text);
+  return {
+    raw: bytes.length,
+    gzip: gzipSync(bytes).length,
+    brotli: brotliCompressSync(bytes).length,
+  };
+}
+
+/**
+ * Package of a remote, npm cache or `node_modules` module, e.g.
+ * `jsr:@std/path@1.0.8` or `npm:preact@10.19.0`.
+ */
+function packageOf(url: URL): string | undefined {
+  const path = url.pathname;
+  if (url.protocol === "file:") {
+    // Deno's npm cache: `$DENO_DIR/npm/<registry>/<name>/<version>/…`
+    const cached = decodeURIComponent(path).match(/\/npm\/[^/]+\.[^/]+\/((?:@[^/]+\/)?[^/@]+)\/([^/]+)\//);
+    if (cached) return `npm:${cached[1]}@${cached[2]}`;
+    // The innermost package, also below Deno's `node_modules/.deno/`
+    const installed = [...decodeURIComponent(path).matchAll(/\/node_modules\/((?:@[^/]+\/)?[^/@.][^/@]*)\//g)];
+    return installed.length ? `npm:${installed[installed.length - 1][1]}` : undefined;
+  }
+  if (url.hostname === "jsr.io") {
+    const match = path.match(/^\/(@[^/]+\/[^/]+)\/([^/]+)\//);
+    if (match) return `jsr:${match[1]}@${match[2]}`;
+  }
+  if (url.hostname === "deno.land") {
+    const match = path.match(/^\/(x\/[^/]+|std@[^/]+)/);
+    if (match) return `deno.land/${match[1]}`;
+  }
+  if (["esm.sh", "cdn.jsdelivr.net", "unpkg.com"].includes(url.hostname)) {
+    const match = path.match(/^\/(?:npm\/)?((?:@[^/]+\/)?[^/]+)/);
+    if (match) return `npm:${match[1]}`;
+  }
+  return `${url.host}/${path.split("/")[1] ?? ""}`;
+}
+
+/** URL of a source map source; plain paths are relative to the project. */
+function sourceUrl(source: string, sourceRoot: string | undefined, projectDir: string): URL {
+  try {
+    return new URL(source, sourceRoot || undefined);
+  } catch {
+    return toFileUrl(resolve(projectDir, sourceRoot ?? "", source));
+  }
+}
+
+/**
+ * Split `code` into the chunks each source of `map` generated.
+ *
+ * @returns Code per source index; `-1` holds code without a source
+ */
+function attribute(code: string, map: SourceMap | undefined): Map<number, string[]> {
+  const chunks = new Map<number, string[]>();
+  const add = (source: number, text: string) => {
+    if (!text) return;
+    if (!chunks.has(source)) chunks.set(source, []);
+    chunks.get(source)!.push(text);
+  };
+  const mappings = map ? decodeMappings(map.mappings) : [];
+  const lines = code.split("\n");
+  lines.forEach((line, index) => {
+    let column = 0;
+    let source = -1;
+    for (const segment of mappings[index] ?? []) {
+      if (segment[0] > column) add(source, line.slice(column, segment[0]));
+      column = Math.max(column, segment[0]);
+      source = segment.length >= 4 ? segment[1] : -1;
+    }
+    add(source, line.slice(column) + (index < lines.length - 1 ? "\n" : ""));
+  });
+  return chunks;
+}
+
+/**
+ * Attribute the bytes of a bundle to its input modules and packages.
+ *
+ * @param code The bundle as written, without its source map comment
+ * @param map Map from the bundle to the original sources (with URL sources);
+ *            without one, the whole bundle counts as generated code
+ * @param projectDir Project root that local module paths are relative to
+ * @internal
+ */
+export function analyzeBundle(
+  code: string,
+  map: SourceMap | undefined,
+  bundlePath: string,
+  target: BundleTarget | undefined,
+  projectDir: string,
+): BundleAnalysis {
+  const modules = new Map<string, ModuleCode>();
+  for (const [source, chunks] of attribute(code, map)) {
+    let id = GENERATED;
+    let entry: Omit<ModuleCode, "chunks"> = { kind: "generated" };
+    if (source >= 0 && map) {
+      const url = sourceUrl(map.sources[source], map.sourceRoot, projectDir);
+      const pkg = packageOf(url);
+      id = url.protocol === "file:"
+        ? relative(projectDir, fromFileUrl(url)).split(SEPARATOR).join("/")
+        : url.href;
+      entry = pkg ? { kind: "remote", package: pkg } : { kind: "local" };
+    }
+    const module = modules.get(id) ?? { ...entry, chunks: [] };
+    module.chunks.push(...chunks);
+    modules.set(id, module);
+  }
+
+  const moduleSizes: ModuleSize[] = [...modules].map(([module, { chunks, ...entry }]) => ({
+    module,
+    ...entry,
+    ...measureAnalyzed(chunks.join("")),
+  }));
+  const groups = new Map<string, { chunks: string[]; modules: number }>();
+  for (const module of modules.values()) {
+    const name = groupName(module);
+    const group = groups.get(name) ?? { chunks: [], modules: 0 };
+    group.chunks.push(...module.chunks);
+    group.modules++;
+    groups.set(name, group);
+  }
+  const packages: PackageSize[] = [...groups].map(([name, group]) => ({
+    name,
+    modules: group.modules,
+    ...measureAnalyzed(group.chunks.join("")),
+  }));
+
+  return {
+    bundlePath,
+    ...(target && { target }),
+    ...measureAnalyzed(code),
+    modules: moduleSizes.sort((a, b) => b.raw - a.raw),
+    packages: packages.sort((a, b) => b.raw - a.raw),
+  };
+}
+
+/**
+ * Write the JSON and HTML reports of a build's bundles into `outDirectory`.
+ *
+ * @returns The written file names, relative to `outDirectory`
+ * @internal
+ */
+export async function writeSizeReport(
+  outDirectory: string,
+  analyses: readonly BundleAnalysis[],
+): Promise<string[]> {
+  await writeFileAtomic(
+    join(outDirectory, REPORT_FILES.json),
+    JSON.stringify({ version: REPORT_VERSION, bundles: analyses }, null, 2),
+  );
+  await writeFileAtomic(join(outDirectory, REPORT_FILES.html), renderReport(analyses));
+  return [REPORT_FILES.json, REPORT_FILES.html];
+}
+
+/**
+ * Read the analyses of the last build back from its JSON report.
+ *
+ * @returns The analyses, or `undefined` if there is no readable report
+ * @internal
+ */
+export async function readSizeReport(
+  outDirectory: string,
+): Promise<BundleAnalysis[] | undefined> {
+  try {
+    const report = JSON.parse(
+      await Deno.readTextFile(join(outDirectory, REPORT_FILES.json)),
+    );
+    return report.version === REPORT_VERSION ? report.bundles : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Render the self-contained HTML treemap of the analyses. */
+function renderReport(analyses: readonly BundleAnalysis[]): string {
+  // Keep `</script>` in module names from ending the data block
+  const data = JSON.stringify(analyses).replace(/</g, "\\u003c");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Bundle size report</title>
+<style>
+  body { font: 13px system-ui, sans-serif; margin: 24px; color: #1f2328; }
+  h2 { font-size: 15px; margin: 32px 0 8px; }
+  .treemap { position: relative; height: 480px; background: #f6f8fa; }
+  .group, .module { position: absolute; box-sizing: border-box; overflow: hidden; }
+  .group { border: 1px solid #fff; }
+  .group > span { display: block; padding: 2px 4px; font-weight: 600; white-space: nowrap; }
+  .module { border: 1px solid rgba(255, 255, 255, 0.6); padding: 2px 4px; font-size: 11px; white-space: nowrap; }
+  table { border-collapse: collapse; margin-top: 12px; }
+  th, td { padding: 2px 12px 2px 0; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+</style>
+</head>
+<body>
+<h1>Bundle size report</h1>
+<label>Size: <select id="metric"><option>raw</option><option>gzip</option><option>brotli</option></select></label>
+<div id="bundles"></div>
+<script>
+const REPORT = ${data};
+const COLORS = ["#8ecae6", "#ffb703", "#90be6d", "#f4a261", "#cdb4db", "#ade8f4", "#e9c46a", "#b5e48c"];
+
+function kB(bytes) {
+  return (bytes / 1024).toFixed(1) + " kB";
+}
+
+// Squarified treemap layout of items with a value, inside a rectangle
+function squarify(items, x, y, width, height) {
+  const rects = [];
+  let rest = items.filter((item) => item.value > 0);
+  while (rest.length > 0) {
+    const scale = (width * height) / rest.reduce((sum, item) => sum + item.value, 0);
+    const side = Math.min(width, height);
+    const worst = (row) => {
+      const area = row.reduce((sum, item) => sum + item.value, 0) * scale;
+      const max = Math.max(...row.map((item) => item.value)) * scale;
+      const min = Math.min(...row.map((item) => item.value)) * scale;
+      return Math.max((side * side * max) / (area * area), (area * area) / (side * side * min));
+    };
+    let count = 1;
+    while (count < rest.length && worst(rest.slice(0, count + 1)) <= worst(rest.slice(0, count))) count++;
+    const row = rest.slice(0, count);
+    const thickness = row.reduce((sum, item) => sum + item.value, 0) * scale / side;
+    let offset = 0;
+    for (const item of row) {
+      const length = item.value * scale / thickness;
+      rects.push(width >= height
+        ? { item, x, y: y + offset, width: thickness, height: length }
+        : { item, x: x + offset, y, width: length, height: thickness });
+      offset += length;
+    }
+    if (width >= height) {
+      x += thickness;
+      width -= thickness;
+    } else {
+      y += thickness;
+      height -= thickness;
+    }
+    rest = rest.slice(count);
+  }
+  return rects;
+}
+
+function box(className, rect, label, title, color) {
+  const element = document.createElement("div");
+  element.className = className;
+  Object.assign(element.style, {
+    left: rect.x + "px",
+    top: rect.y + "px",
+    width: rect.width + "px",
+    height: rect.height + "px",
+    background: color,
+  });
+  element.title = title;
+  const text = document.createElement("span");
+  text.textContent = label;
+  element.append(text);
+  return element;
+}
+
+function render() {
+  const metric = document.getElementById("metric").value;
+  const root = document.getElementById("bundles");
+  root.replaceChildren();
+  for (const bundle of REPORT) {
+    const heading = document.createElement("h2");
+    heading.textContent = bundle.bundlePath + (bundle.target ? " (" + bundle.target + ")" : "") +
+      " – " + kB(bundle.raw) + " raw, " + kB(bundle.gzip) + " gzip, " + kB(bundle.brotli) + " brotli";
+    const treemap = document.createElement("div");
+    treemap.className = "treemap";
+    root.append(heading, treemap);
+
+    const groupOf = (module) => module.package ?? (module.kind === "local" ? "(local)" : "(generated)");
+    const groups = bundle.packages.map((pkg) => ({ value: pkg[metric], pkg }));
+    squarify(groups, 0, 0, treemap.clientWidth, treemap.clientHeight).forEach((groupRect, index) => {
+      const { pkg } = groupRect.item;
+      const color = COLORS[index % COLORS.length];
+      const group = box("group", groupRect, pkg.name, pkg.name + ": " + kB(pkg[metric]), color);
+      treemap.append(group);
+      const header = Math.min(18, groupRect.height / 4);
+      const modules = bundle.modules
+        .filter((module) => groupOf(module) === pkg.name)
+        .map((module) => ({ value: module[metric], module }));
+      for (const rect of squarify(modules, 0, header, groupRect.width, groupRect.height - header)) {
+        const { module } = rect.item;
+        const name = module.module.split("/").pop();
+        group.append(box("module", rect, name, module.module + ": " + kB(module[metric]), color));
+      }
+    });
+
+    const table = document.createElement("table");
+    table.innerHTML = "<tr><th>Package</th><th>Modules</th><th>Raw</th><th>Gzip</th><th>Brotli</th></tr>";
+    for (const pkg of bundle.packages) {
+      const row = table.insertRow();
+      for (const value of [pkg.name, pkg.modules, kB(pkg.raw), kB(pkg.gzip), kB(pkg.brotli)]) {
+        row.insertCell().textContent = value;
+      }
+    }
+    root.append(table);
+  }
+}
+
+document.getElementById("metric").addEventListener("change", render);
+render();
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,191 @@
+/**
+ * Bundle size budgets for the @vsce/bundler package.
+ *
+ * The sizes of each build's bundles are kept in `.build-sizes.json` next to
+ * the build cache, so that the next build can report how much each bundle –
+ * and, for analyzed builds, each module – grew. Budgets turn absolute sizes
+ * and growth into a build failure that CI can tell apart from other errors.
+ *
+ * @module
+ */
+
+import { join } from "@std/path";
+
+import type {
+  BudgetViolation,
+  BundleTarget,
+  ModuleSizeChange,
+  SizeBudget,
+  SizeComparison,
+  SizeInfo,
+} from "../types.ts";
+import { BundleError } from "./errors.ts";
+import { writeFileAtomic } from "./output.ts";
+
+/** File name of the size record inside the output directory. @internal */
+export const SIZES_FILE = ".build-sizes.json";
+
+/** Version of the size record layout. */
+const SIZES_VERSION = 1;
+
+/**
+ * Recorded sizes of a bundle.
+ * @internal
+ */
+export interface BundleSizes extends SizeInfo {
+  /** Path of the bundle relative to the output directory. */
+  file: string;
+  /** Extension host the bundle is built for. */
+  target?: BundleTarget;
+  /** Raw bytes per module, for analyzed builds. */
+  modules?: Record<string, number>;
+}
+
+/**
+ * Thrown by `bundleExtension` when a bundle exceeds its size budget.
+ *
+ * @example Telling budget failures apart
+ * ```ts
+ * try {
+ *   await bundleExtension({ projectDir, budget: { maxSize: 500_000 } });
+ * } catch (err) {
+ *   if (err instanceof BudgetExceededError) console.error(err.violations);
+ * }
+ * ```
+ */
+export class BudgetExceededError extends BundleError {
+  /** The exceeded limits, one per bundle and limit. */
+  readonly violations: BudgetViolation[];
+
+  constructor(violations: BudgetViolation[]) {
+    super(
+      `Bundle size budget exceeded:\n${violations.map(formatViolation).join("\n")}`,
+      { code: "BUDGET_EXCEEDED", phase: "verify", file: violations[0]?.bundlePath },
+    );
+    this.name = "BudgetExceededError";
+    this.violations = violations;
+  }
+}
+
+/** Render a violation, e.g. `out/extension.js: 512.0 kB > maxSize 500.0 kB`. */
+function formatViolation(violation: BudgetViolation): string {
+  const format = (value: number) =>
+    violation.budget === "maxGrowthPercent"
+      ? `${value.toFixed(1)}%`
+      : `${(value / 1024).toFixed(1)} kB`;
+  return `  ${violation.bundlePath}: ${format(violation.actual)} > ${violation.budget} ${
+    format(violation.limit)
+  }`;
+}
+
+/**
+ * Read the sizes of the previous build.
+ *
+ * @returns The recorded bundles, empty if there is no readable record
+ * @internal
+ */
+export async function readSizeRecord(
+  outDirectory: string,
+): Promise<BundleSizes[]> {
+  try {
+    const record = JSON.parse(
+      await Deno.readTextFile(join(outDirectory, SIZES_FILE)),
+    );
+    return record.version === SIZES_VERSION ? record.bundles : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Record the sizes of this build as the baseline of the next one.
+ * @internal
+ */
+export async function writeSizeRecord(
+  outDirectory: string,
+  bundles: readonly BundleSizes[],
+): Promise<void> {
+  await writeFileAtomic(
+    join(outDirectory, SIZES_FILE),
+    JSON.stringify({ version: SIZES_VERSION, bundles }, null, 2),
+  );
+}
+
+/** Modules whose size differs between two breakdowns, largest change first. */
+function moduleChanges(
+  previous: Record<string, number>,
+  current: Record<string, number>,
+): ModuleSizeChange[] {
+  return [...new Set([...Object.keys(previous), ...Object.keys(current)])]
+    .map((module) => ({
+      module,
+      previous: previous[module] ?? 0,
+      current: current[module] ?? 0,
+    }))
+    .filter((change) => change.previous !== change.current)
+    .sort((a, b) =>
+      Math.abs(b.current - b.previous) - Math.abs(a.current - a.previous)
+    );
+}
+
+/**
+ * Compare the bundles of this build with those of the previous build.
+ * @internal
+ */
+export function compareSizes(
+  outDirectory: string,
+  current: readonly BundleSizes[],
+  previous: readonly BundleSizes[],
+): SizeComparison[] {
+  return current.map((bundle) => {
+    const { file, target, modules, ...sizes } = bundle;
+    const before = previous.find((entry) => entry.file === file);
+    const comparison: SizeComparison = {
+      bundlePath: join(outDirectory, file),
+      ...(target && { target }),
+      current: sizes,
+    };
+    if (before) {
+      comparison.previous = { raw: before.raw, gzip: before.gzip };
+      comparison.growthPercent = before.raw === 0
+        ? 0
+        : Math.round(((sizes.raw - before.raw) / before.raw) * 10000) / 100;
+      if (modules && before.modules) {
+        comparison.modules = moduleChanges(before.modules, modules);
+      }
+    }
+    return comparison;
+  });
+}
+
+/**
+ * Check the compared bundles against `budget`.
+ *
+ * @returns One violation per bundle and exceeded limit
+ * @internal
+ */
+export function checkBudget(
+  sizes: readonly SizeComparison[],
+  budget: SizeBudget,
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  for (const { bundlePath, target, current, growthPercent } of sizes) {
+    const measured: [keyof SizeBudget, number | undefined][] = [
+      ["maxSize", current.raw],
+      ["maxGzipSize", current.gzip],
+      ["maxGrowthPercent", growthPercent],
+    ];
+    for (const [name, actual] of measured) {
+      const limit = budget[name];
+      if (limit === undefined || actual === undefined || actual <= limit) continue;
+      violations.push({
+        bundlePath,
+        ...(target && { target }),
+        budget: name,
+        limit,
+        actual,
+      });
+    }
+  }
+  return violations;
+}
@@ -3,43 +3,88 @@
  * 
  * This module provides the main functionality for bundling VS Code extensions
  * targeting the Web Extension runtime. It includes support for caching, minification,
- * and detailed build reporting.
+ * web compatibility enforcement and detailed build reporting.
  * 
  * @module
  */
 
-import { join } from "@std/path";
+import { basename, dirname, join, relative } from "@std/path";
 import { ensureDir } from "@std/fs";
 import { bundle as emitBundle } from "@deno/emit";
 
-import type { BundleOptions, BundleResult } from "../types.ts";
-import { computeProjectHash } from "../hash/compute_hash.ts";
-
-// Attempt to import colors (optional dependency)
-type ColorFn = (s: string) => string;
-interface Colors {
-  green: ColorFn;
-  red: ColorFn;
-  blue: ColorFn;
-  cyan: ColorFn;
-  yellow: ColorFn;
-}
-
-let colors: Colors = {
-  green: (s) => s,
-  red: (s) => s,
-  blue: (s) => s,
-  cyan: (s) => s,
-  yellow: (s) => s,
-};
-try {
-  // Use the import map from deno.json
-  const fmt = await import("jsr:@std/fmt@^1.0.0/colors");
-  const { green, red, blue, cyan, yellow } = fmt as unknown as Colors & Record<string, unknown>;
-  colors = { green, red, blue, cyan, yellow };
-} catch {
-  /* colors not available – keep no-op implementations */
-}
+import type {
+  BuildPhase,
+  BundleAnalysis,
+  BundleOptions,
+  BundleErrorCode,
+  BundleResult,
+  BundleTarget,
+  CacheMissReason,
+  CompatIssue,
+  SizeComparison,
+  TargetResult,
+  TypeDiagnostic,
+} from "../types.ts";
+import {
+  analyzeBundle,
+  measure,
+  readSizeReport,
+  REPORT_FILES,
+  writeSizeReport,
+} from "./analyze.ts";
+import {
+  BudgetExceededError,
+  type BundleSizes,
+  checkBudget,
+  compareSizes,
+  readSizeRecord,
+  writeSizeRecord,
+} from "./budget.ts";
+import {
+  CACHE_FILE,
+  type CacheKey,
+  type CacheRecord,
+  checkCacheRecord,
+  computeCacheKey,
+  fingerprintOptions,
+  readCacheRecord,
+  writeCacheRecord,
+} from "./cache.ts";
+import { findConfigFile, loadDenoConfig } from "./config.ts";
+import { applyDefines, normalizeDefines } from "./define.ts";
+import { BundleError, toBundleError } from "./errors.ts";
+import { esbuildBundle, type ResolvePlatform } from "./esbuild.ts";
+import { sharedModuleGraph } from "./graph.ts";
+import {
+  DEFAULT_EXTERNALS,
+  externalEmitOptions,
+  restoreExternals,
+} from "./externals.ts";
+import { BuildEvents } from "./events.ts";
+import { formatCompatIssue } from "./format.ts";
+import { Lockfile } from "./lockfile.ts";
+import {
+  type ExtensionManifest,
+  languageTargets,
+  manifestOutputs,
+  readManifest,
+  verifyManifestOutputs,
+} from "./manifest.ts";
+import { OutDirLock, writeFileAtomic } from "./output.ts";
+import { PluginHost } from "./plugins.ts";
+import { createModuleLoader, notCachedError } from "./remote.ts";
+import { prettyReporter } from "./reporters.ts";
+import {
+  attachSourceMap,
+  chainSourceMaps,
+  normalizeSources,
+  parseSourceMap,
+  type SourceMap,
+  stripSourceMapComment,
+} from "./sourcemap.ts";
+import { convertForTarget, targetOutFile } from "./targets.ts";
+import { checkTypes, formatTypeDiagnostic } from "./typecheck.ts";
+import { auditWebCompatibility } from "./validate.ts";
 
 /**
  * Bundle a VS Code extension for the Web Extension runtime.
@@ -50,6 +95,9 @@ try {
  * 
  * @param options Configuration options for the bundling process
  * @returns A promise that resolves to the bundle result containing metadata
+ * @throws {BundleError} If the build fails, with the failure's code, phase and
+ *                       location – a {@link BudgetExceededError} for bundles
+ *                       over budget, a `PluginError` for failed plugins
  * 
  * @example Basic bundling
  * ```ts
@@ -65,6 +113,18 @@ try {
  * console.log(`Build time: ${result.buildTimeMs}ms`);
  * ```
  * 
+ * @example Failing the build on web compatibility errors
+ * ```ts
+ * const result = await bundleExtension({
+ *   projectDir: "/path/to/extension",
+ *   validate: "error"
+ * });
+ * 
+ * for (const issue of result.diagnostics ?? []) {
+ *   console.warn(`${issue.file}:${issue.line} ${issue.message}`);
+ * }
+ * ```
+ * 
  * @example Bundling with minification
  * ```ts
  * const result = await bundleExtension({
@@ -73,6 +133,38 @@ try {
  *   minifier: "esbuild" // or "terser"
  * });
  * ```
+ * 
+ * @example Stripping dev-only code with compile-time defines
+ * ```ts
+ * const result = await bundleExtension({
+ *   projectDir: "/path/to/extension",
+ *   minify: true,
+ *   define: { __DEV__: false, "process.env.NODE_ENV": '"production"' }
+ * });
+ * console.log(result.defines); // { __DEV__: "false", "process.env.NODE_ENV": '"production"' }
+ * ```
+ * 
+ * @example Source maps that resolve to the TypeScript sources
+ * ```ts
+ * const result = await bundleExtension({
+ *   projectDir: "/path/to/extension",
+ *   minify: true,
+ *   sourcemap: "hidden", // write extension.js.map without linking it
+ *   sourcesContent: true
+ * });
+ * ```
+ * 
+ * @example Prepending a banner with a plugin
+ * ```ts
+ * const result = await bundleExtension({
+ *   projectDir: "/path/to/extension",
+ *   minify: true,
+ *   plugins: [{
+ *     name: "banner",
+ *     beforeMinify: (code) => `/*! My Extension *\/\n${code}`
+ *   }]
+ * });
+ * ```
  */
 export async function bundleExtension(
   options: BundleOptions,
@@ -82,138 +174,673 @@ export async function bundleExtension(
     entryPoint = "extension.ts",
     outDir = "out",
     outFile = "extension.js",
-    verbose = false,
-    quiet = false,
+    bundler: backend = "emit",
+    verbose,
+    quiet,
     minify = false,
     minifier = "esbuild",
+    sourcemap = minify ? "external" : "none",
+    sourcesContent = false,
+    analyze = false,
+    budget,
+    define,
     useCache = true,
-    log = console.log,
-    logError = console.error,
+    targets,
+    manifest: manifestMode = false,
+    verifyManifest = false,
+    external = DEFAULT_EXTERNALS,
+    validate = "off",
+    compat,
+    typeCheck = "off",
+    plugins = [],
+    lock: lockPolicy = "wait",
+    lockTimeoutMs = 60_000,
+    signal,
+    offline = false,
+    log,
+    logError,
+    reporters = [prettyReporter({ log, logError, verbose, quiet })],
     bundleFn,
   } = options;
 
   const start = performance.now();
-  const messages: string[] = [];
-  const logEnabled = !quiet;
-  const logMessage = (msg: string) => {
-    if (logEnabled) log(msg);
-    messages.push(msg);
+  const events = new BuildEvents(reporters);
+  const reportIssues = (issues: CompatIssue[]) => {
+    for (const issue of issues) {
+      const level = validate === "error" && issue.severity === "error" ? "error" : "warning";
+      events.message(level, formatCompatIssue(issue), issue);
+    }
+  };
+  const reportTypeErrors = (errors: TypeDiagnostic[]) => {
+    for (const error of errors) {
+      const level = typeCheck === "error" ? "error" : "warning";
+      events.message(level, formatTypeDiagnostic(error), error);
+    }
+  };
+
+  const enforceBudget = (sizes: SizeComparison[]) => {
+    if (!budget) return;
+    const violations = checkBudget(sizes, budget);
+    if (violations.length > 0) throw new BudgetExceededError(violations);
   };
 
-  const entry = join(projectDir, entryPoint);
-  const outDirectory = join(projectDir, outDir);
-  const bundlePath = join(outDirectory, outFile);
-  await ensureDir(outDirectory);
+  // The phase being run and the bundle it works on, for failures that do not
+  // name a file
+  let phase: BuildPhase = "resolve";
+  let phaseFile: string | undefined;
+  const enter = (next: BuildPhase, file?: string) => {
+    if (signal?.aborted) {
+      fail(
+        new BundleError(`Build aborted before the ${next} phase`, {
+          code: "ABORTED",
+          phase: next,
+          cause: signal.reason,
+        }),
+        next,
+      );
+    }
+    phase = next;
+    phaseFile = file;
+    events.enter(next, file);
+  };
 
-  const cachePath = join(outDirectory, ".build-cache.json");
+  // Every failure is reported once and rejects with a BundleError
+  let failure: BundleError | undefined;
+  const fail = (
+    err: unknown,
+    phase: BuildPhase,
+    code?: BundleErrorCode,
+    file?: string,
+  ): never => {
+    if (err === failure) throw err;
+    const error = toBundleError(
+      err,
+      phase,
+      code ?? (signal?.aborted ? "ABORTED" : undefined),
+      file,
+    );
+    failure = error;
+    events.end();
+    events.emit({
+      type: "build-failed",
+      durationMs: performance.now() - start,
+      code: error.code,
+      phase: error.phase,
+      message: error.message,
+      ...(error.file && { file: error.file }),
+      ...(error.line !== undefined && { line: error.line }),
+      ...(error.column !== undefined && { column: error.column }),
+    });
+    throw error;
+  };
 
-  // Hash calculation
-  let currentHash = "";
+  const defines = define && Object.keys(define).length > 0
+    ? normalizeDefines(define)
+    : undefined;
+  let entry = join(projectDir, entryPoint);
+  let outDirectory = join(projectDir, outDir);
+  let builds: OutputSpec[] = targets?.length
+    ? targets.map((target) => ({ target, file: targetOutFile(target, outFile) }))
+    : [{ file: outFile }];
+  events.emit({ type: "build-start", projectDir, entry });
+  enter("resolve");
+  let manifest: ExtensionManifest | undefined;
+  if (manifestMode) {
+    // Outputs come from package.json; the cache lives next to the first one
+    try {
+      manifest = await readManifest(projectDir);
+      const outputs = manifestOutputs(projectDir, manifest);
+      outDirectory = dirname(outputs[0].path);
+      builds = outputs.map(({ target, path }) => ({
+        target,
+        file: relative(outDirectory, path),
+      }));
+    } catch (err) {
+      fail(err, "resolve", "MANIFEST_INVALID", join(projectDir, "package.json"));
+    }
+  } else if (verifyManifest) {
+    manifest = await readManifest(projectDir).catch((err) =>
+      fail(err, "resolve", "MANIFEST_INVALID", join(projectDir, "package.json"))
+    );
+  }
+  const bundlePath = join(outDirectory, builds[0].file);
+  // In manifest mode the bundles are written where the manifest points
+  const checkManifest = () => {
+    if (!verifyManifest || manifestMode) return;
+    const problems = verifyManifestOutputs(
+      projectDir,
+      manifest!,
+      builds.map(({ target, file }) => ({ target, path: join(outDirectory, file) })),
+    );
+    if (problems.length > 0) {
+      throw new BundleError(problems.join("\n"), {
+        code: "MANIFEST_INVALID",
+        phase,
+        file: join(projectDir, "package.json"),
+      });
+    }
+  };
+  await ensureDir(outDirectory).catch((err) => fail(err, "write", undefined, outDirectory));
+
+  const host = new PluginHost(
+    plugins,
+    options,
+    outDirectory,
+    (message) => events.message("info", message),
+  );
   try {
-    currentHash = await computeProjectHash(projectDir, outDir);
-  } catch {
-    messages.push(
-      "Failed to compute project hash – proceeding with full rebuild",
+    entry = await host.resolveEntry(entry);
+  } catch (err) {
+    fail(err, "resolve");
+  }
+  if (!await Deno.stat(entry).then((info) => info.isFile, () => false)) {
+    fail(
+      new BundleError(`Entry point not found: ${entry}`, {
+        code: "ENTRY_NOT_FOUND",
+        phase: "resolve",
+        file: entry,
+      }),
+      "resolve",
     );
   }
 
-  // Cache check
-  if (useCache && currentHash) {
-    try {
-      const cachedHash = await Deno.readTextFile(cachePath);
-      if (cachedHash.trim() === currentHash) {
-        if (verbose) logMessage(colors.green("⚡ No changes detected. Using cached build."));
-        const { size } = await Deno.stat(bundlePath);
-        return {
-          bundlePath,
-          size,
-          buildTimeMs: 0,
-          fromCache: true,
-          messages,
-        };
-      }
-    } catch { /* cache miss */ }
+  // Builds of the same output directory run one at a time
+  let lock: OutDirLock | undefined;
+  if (lockPolicy !== "off") {
+    enter("lock");
+    lock = await OutDirLock.acquire(outDirectory, {
+      policy: lockPolicy,
+      timeoutMs: lockTimeoutMs,
+      signal,
+    }).catch((err) => fail(err, "lock"));
   }
 
-  // Build
   try {
-    const bundler = bundleFn ?? emitBundle;
-    const result = await bundler(entry);
-    let bundleCode = result.code;
-
-    // Minification
-    if (minify) {
-      if (verbose) logMessage(colors.cyan(`🔧 Minifying with ${minifier}`));
-      if (minifier === "esbuild") {
-        const esbuild = await import("npm:esbuild@0.19.2");
-        const { code: minCode, map } = await esbuild.transform(bundleCode, {
-          minify: true,
-          sourcemap: "external",
-          sourcefile: outFile,
-        });
-        bundleCode = `${minCode}\n//# sourceMappingURL=${outFile}.map`;
-        await Deno.writeTextFile(join(outDirectory, `${outFile}.map`), map);
-        // esbuild.stop is not available in npm version
-        // Previously used with Deno-specific esbuild version
-      } else {
-        // deno-lint-ignore no-explicit-any
-        let terser: any;
+    const cachePath = join(outDirectory, CACHE_FILE);
+    // The cache key, the audit, the type check and the esbuild backend share
+    // the module graph, so `deno info` runs at most once per build
+    const graph = sharedModuleGraph(entry, projectDir, { offline });
+
+    // Cache key calculation
+    let cacheKey: CacheKey | undefined;
+    let cacheRecord: CacheRecord | undefined;
+    let cacheMissReason: CacheMissReason | undefined = useCache
+      ? undefined
+      : "disabled";
+    if (useCache) {
+      enter("hash");
+      cacheRecord = await readCacheRecord(cachePath);
+      try {
+        cacheKey = await computeCacheKey(
+          projectDir,
+          graph,
+          await fingerprintOptions({
+            entryPoint,
+            outFile,
+            bundler: backend,
+            minify,
+            minifier,
+            sourcemap,
+            sourcesContent,
+            analyze,
+            define,
+            targets,
+            manifest: manifestMode,
+            external,
+            validate,
+            compat,
+            typeCheck,
+            plugins,
+          }),
+          cacheRecord,
+        );
+      } catch {
+        cacheMissReason = "hash-failed";
+        events.message(
+          "warning",
+          "Failed to resolve module graph – proceeding with full rebuild",
+        );
+      }
+    }
+
+    // Cache check
+    if (!cacheKey) {
+      events.emit({ type: "cache", hit: false, reason: cacheMissReason });
+    } else {
+      enter("cache");
+      cacheMissReason = await checkCacheRecord(
+        cacheRecord,
+        cacheKey,
+        outDirectory,
+      );
+      if (!cacheMissReason) {
+        events.emit({ type: "cache", hit: true });
+        // The audit result is part of the record, since the sources are unchanged
+        const diagnostics = validate === "off"
+          ? undefined
+          : cacheRecord?.diagnostics ?? [];
+        if (diagnostics) reportIssues(diagnostics);
+        const typeDiagnostics = typeCheck === "off"
+          ? undefined
+          : cacheRecord?.typeDiagnostics ?? [];
+        if (typeDiagnostics) reportTypeErrors(typeDiagnostics);
+        const result = await (async (): Promise<BundleResult> => {
+          // Nothing changed since the recorded build, but the budget may have
+          // been tightened
+          const recorded = await readSizeRecord(outDirectory);
+          const sizes = compareSizes(outDirectory, recorded, recorded);
+          enforceBudget(sizes);
+          checkManifest();
+          // The outputs may have been removed since the cache check
+          const { size } = await Deno.stat(bundlePath);
+          return {
+            bundlePath,
+            size,
+            buildTimeMs: 0,
+            fromCache: true,
+            messages: events.messages,
+            targets: await collectTargets(outDirectory, builds),
+            diagnostics,
+            typeDiagnostics,
+            analysis: analyze ? await readSizeReport(outDirectory) : undefined,
+            sizes,
+            defines,
+          };
+        })().catch((err) => fail(err, "cache"));
         try {
-          terser = await import("npm:terser@5.27.0");
-        } catch {
-          logMessage(
-            colors.yellow("terser unavailable – skipping minification"),
+          await host.cacheHit(result);
+        } catch (err) {
+          fail(err, "cache");
+        }
+        if (host.assets.length > 0) {
+          result.assets = host.assets.map((asset) => join(outDirectory, asset));
+        }
+        events.end();
+        events.emit({
+          type: "build-end",
+          durationMs: performance.now() - start,
+          fromCache: true,
+          bundlePath,
+        });
+        return result;
+      }
+      events.emit({ type: "cache", hit: false, reason: cacheMissReason });
+    }
+
+    // Build
+    try {
+      // Web compatibility audit – fails before anything is written
+      let diagnostics: CompatIssue[] | undefined;
+      if (validate !== "off") {
+        enter("audit");
+        events.message("debug", "Auditing web compatibility");
+        diagnostics = await auditWebCompatibility(entry, compat, graph);
+        reportIssues(diagnostics);
+        const errors = diagnostics.filter((issue) => issue.severity === "error");
+        if (validate === "error" && errors.length > 0) {
+          throw new BundleError(
+            `Web compatibility audit failed with ${errors.length} error(s)`,
+            {
+              code: "VALIDATION_FAILED",
+              phase,
+              file: errors[0].file,
+              line: errors[0].line,
+              column: errors[0].column,
+            },
           );
         }
-        if (terser) {
-          const res = await terser.minify({ [outFile]: bundleCode }, {
-            sourceMap: { filename: outFile, url: `${outFile}.map` },
+      }
+
+      // Type check – bundling only strips the types
+      let typeDiagnostics: TypeDiagnostic[] | undefined;
+      if (typeCheck !== "off") {
+        enter("check");
+        events.message("debug", "Type checking");
+        typeDiagnostics = await checkTypes(entry, projectDir, graph, { offline });
+        reportTypeErrors(typeDiagnostics);
+        if (typeCheck === "error" && typeDiagnostics.length > 0) {
+          throw new BundleError(
+            `Type check failed with ${typeDiagnostics.length} error(s)`,
+            {
+              code: "TYPE_ERROR",
+              phase,
+              file: typeDiagnostics[0].file,
+              line: typeDiagnostics[0].line,
+              column: typeDiagnostics[0].column,
+            },
+          );
+        }
+      }
+
+      // The size analysis attributes bytes through the source map
+      const withMaps = sourcemap !== "none" || analyze;
+      enter("bundle");
+      await host.beforeBundle(entry);
+      events.message("debug", `Bundling ${entryPoint} with ${bundleFn ? "a custom bundler" : backend}`);
+      // Resolve like Deno: the project's import map, compiler options and lockfile
+      const configPath = await findConfigFile(projectDir);
+      const config = configPath ? await loadDenoConfig(configPath) : undefined;
+      // The esbuild backend resolves npm packages for each extension host;
+      // other bundlers resolve them like Deno, so all targets share one pass
+      const platformOf = (target?: BundleTarget): ResolvePlatform =>
+        backend === "esbuild" && !bundleFn && target === "webworker" ? "browser" : "deno";
+      const passes = new Map<ResolvePlatform, SharedBundle>();
+      const bundleFor = async (platform: ResolvePlatform): Promise<SharedBundle> => {
+        const cached = passes.get(platform);
+        if (cached) return cached;
+        if (phase !== "bundle") enter("bundle");
+        let result: { code: string; map?: string };
+        if (backend === "esbuild" && !bundleFn) {
+          result = await esbuildBundle(entry, {
+            projectDir,
+            external,
+            sourcemap: withMaps,
+            sourcesContent,
+            compilerOptions: config?.compilerOptions,
+            graph,
+            offline,
+            platform,
+          });
+        } else {
+          const loader = createModuleLoader({
+            vendorDir: config?.vendorDir,
+            lockfile: config?.lock &&
+              await Lockfile.read(config.lock.path, config.lock.frozen),
+            offline,
+          });
+          result = await (bundleFn ?? emitBundle)(entry, {
+            ...externalEmitOptions(external, config?.importMap, loader.load),
+            compilerOptions: {
+              ...config?.compilerOptions,
+              ...(withMaps && {
+                sourceMap: true,
+                inlineSourceMap: false,
+                inlineSources: sourcesContent,
+              }),
+            },
+          }).catch((err) => {
+            // The failed import is one of possibly many missing modules
+            if (loader.missing.length > 0) throw notCachedError(loader.missing);
+            throw err;
           });
-          if (res.code) bundleCode = res.code;
-          if (res.map) {
-            await Deno.writeTextFile(
-              join(outDirectory, `${outFile}.map`),
-              res.map as string,
+          if (loader.missing.length > 0) throw notCachedError(loader.missing);
+        }
+        // Externals are import specifiers, so restoring them only shifts columns
+        // at the end of their import declarations
+        const emitted = stripSourceMapComment(restoreExternals(result.code));
+        let code = emitted.code;
+        const emitMap = withMaps
+          ? parseSourceMap(result.map ?? emitted.inlineMap)
+          : undefined;
+        if (withMaps && !emitMap) {
+          events.message("warning", "The bundler returned no source map – writing bundles without one");
+        }
+        // Maps of the build steps shared by the pass's targets, from the sources outwards
+        const sharedMaps: SourceMap[] = emitMap ? [emitMap] : [];
+
+        // Defines go first, so that minification drops what they make unreachable
+        if (defines) {
+          enter("define");
+          events.message("debug", `Substituting ${Object.keys(defines).join(", ")}`);
+          const substituted = await applyDefines(code, defines, emitMap !== undefined);
+          code = substituted.code;
+          const map = parseSourceMap(substituted.map);
+          if (map) sharedMaps.push(map);
+        }
+
+        enter("transform");
+        code = await host.transform("transform", code, (json) => {
+          const map = parseSourceMap(json);
+          if (map) sharedMaps.push(map);
+        });
+        const pass = { code, emitMap, sharedMaps };
+        passes.set(platform, pass);
+        return pass;
+      };
+
+      const outputs: string[] = [];
+      const analyses: BundleAnalysis[] = [];
+      const bundleSizes: BundleSizes[] = [];
+
+      const hostTargets = manifestMode
+        ? languageTargets(manifest?.engines?.vscode)
+        : undefined;
+      for (const { target, file } of builds) {
+        const outPath = join(outDirectory, file);
+        const { code, emitMap, sharedMaps } = await bundleFor(platformOf(target));
+        let bundleCode = code;
+        const maps = [...sharedMaps];
+        const addMap = (json: string | undefined) => {
+          const map = parseSourceMap(json);
+          if (map) maps.push(map);
+        };
+        if (target) {
+          enter("convert", outPath);
+          events.message("debug", `Converting bundle for the ${target} host`);
+          const converted = await convertForTarget(
+            bundleCode,
+            target,
+            external,
+            hostTargets?.[target],
+            emitMap !== undefined,
+          );
+          bundleCode = converted.code;
+          addMap(converted.map);
+          await ensureDir(dirname(outPath));
+        }
+        outputs.push(file);
+
+        enter("transform", outPath);
+        bundleCode = await host.transform("beforeMinify", bundleCode, addMap, {
+          file,
+          bundlePath: outPath,
+          ...(target && { target }),
+        });
+
+        // Minification
+        if (minify) {
+          enter("minify", outPath);
+          events.message("debug", `Minifying ${file} with ${minifier}`);
+          if (minifier === "esbuild") {
+            const esbuild = await import("npm:esbuild@0.19.2");
+            const { code: minCode, map } = await esbuild.transform(bundleCode, {
+              minify: true,
+              sourcemap: emitMap ? "external" : false,
+              sourcefile: basename(file),
+            });
+            bundleCode = minCode;
+            addMap(map);
+            // esbuild.stop is not available in npm version
+            // Previously used with Deno-specific esbuild version
+          } else {
+            // deno-lint-ignore no-explicit-any
+            let terser: any;
+            try {
+              terser = await import("npm:terser@5.27.0");
+            } catch {
+              events.message("warning", "terser unavailable – skipping minification");
+            }
+            if (terser) {
+              const res = await terser.minify({ [basename(file)]: bundleCode }, {
+                sourceMap: emitMap ? { filename: basename(file) } : false,
+              });
+              if (res.code) bundleCode = res.code;
+              addMap(res.map as string | undefined);
+            }
+          }
+        }
+
+        enter("write", outPath);
+        // Source map from the written bundle to the TypeScript sources
+        const chained = emitMap
+          ? maps.reduceRight((outer, inner) => chainSourceMaps(outer, inner))
+          : undefined;
+        const analysis = analyze
+          ? analyzeBundle(bundleCode, chained, outPath, target, projectDir)
+          : undefined;
+        if (analysis) analyses.push(analysis);
+        if (chained && sourcemap !== "none") {
+          const sourceMap = await normalizeSources(
+            { ...chained, file: basename(file) },
+            dirname(outPath),
+            sourcesContent,
+          );
+          const attached = attachSourceMap(bundleCode, sourceMap, sourcemap, `${basename(file)}.map`);
+          bundleCode = attached.code;
+          if (attached.mapFile !== undefined) {
+            await writeFileAtomic(`${outPath}.map`, attached.mapFile);
+            outputs.push(`${file}.map`);
+          }
+        }
+
+        await writeFileAtomic(outPath, bundleCode);
+        bundleSizes.push({
+          file,
+          ...(target && { target }),
+          ...measure(bundleCode),
+          ...(analysis && {
+            modules: Object.fromEntries(analysis.modules.map(({ module, raw }) => [module, raw])),
+          }),
+        });
+      }
+
+      enter("write");
+      await host.afterWrite(
+        builds.map(({ target, file }) => ({
+          file,
+          bundlePath: join(outDirectory, file),
+          ...(target && { target }),
+        })),
+      );
+
+      if (analyze) {
+        outputs.push(...await writeSizeReport(outDirectory, analyses));
+        for (const { bundlePath: path, packages } of analyses) {
+          events.message("debug", `Largest packages in ${relative(projectDir, path)}:`);
+          for (const pkg of packages.slice(0, 5)) {
+            events.message(
+              "debug",
+              `   ${pkg.name}: ${(pkg.raw / 1024).toFixed(1)} kB (${(pkg.gzip / 1024).toFixed(1)} kB gzip)`,
             );
           }
         }
+        events.message("debug", `Size report written to ${join(outDirectory, REPORT_FILES.html)}`);
       }
-    }
 
-    await Deno.writeTextFile(bundlePath, bundleCode);
+      // An over-budget build keeps the previous build as the size baseline
+      const sizes = compareSizes(outDirectory, bundleSizes, await readSizeRecord(outDirectory));
+      // Like the bundles, a deleted or modified asset invalidates the cache
+      outputs.push(...host.assets);
+      for (const file of outputs) {
+        const path = join(outDirectory, file);
+        const build = builds.find((spec) => spec.file === file);
+        events.emit({
+          type: "output",
+          kind: build
+            ? "bundle"
+            : host.assets.includes(file)
+            ? "asset"
+            : file.endsWith(".map")
+            ? "sourcemap"
+            : "report",
+          path,
+          size: (await Deno.stat(path)).size,
+          ...(build?.target && { target: build.target }),
+          ...(build && { sizes: sizes.find((entry) => entry.bundlePath === path) }),
+        });
+      }
+      // Fails before the cache record makes the build reusable
+      enter("verify");
+      enforceBudget(sizes);
+      checkManifest();
+      enter("write");
+      await writeSizeRecord(outDirectory, bundleSizes);
 
-    if (useCache && currentHash) {
-      await Deno.writeTextFile(cachePath, currentHash);
-    }
+      if (cacheKey) {
+        await writeCacheRecord(
+          cachePath,
+          cacheKey,
+          outDirectory,
+          outputs,
+          diagnostics,
+          typeDiagnostics,
+        );
+      }
 
-    const { size } = await Deno.stat(bundlePath);
-    const elapsed = performance.now() - start;
+      const targetResults = await collectTargets(outDirectory, builds);
+      const { size } = await Deno.stat(bundlePath);
+      events.end();
+      const elapsed = performance.now() - start;
+      events.emit({
+        type: "build-end",
+        durationMs: elapsed,
+        fromCache: false,
+        bundlePath,
+      });
 
-    if (verbose) {
-      logMessage(
-        colors.blue(
-          `📦 Bundle size: ${(size / 1024).toFixed(1)} kB${
-            minify ? " (minified)" : ""
-          }`,
-        ),
-      );
-      logMessage(
-        colors.green(`✅ Build completed in ${elapsed.toFixed(0)} ms`),
-      );
+      return {
+        bundlePath,
+        size,
+        // Round up: a buildTimeMs of 0 is reserved for cache hits
+        buildTimeMs: Math.ceil(elapsed),
+        fromCache: false,
+        cacheMissReason,
+        messages: events.messages,
+        targets: targetResults,
+        diagnostics,
+        typeDiagnostics,
+        analysis: analyze ? analyses : undefined,
+        sizes,
+        defines,
+        assets: host.assets.length > 0
+          ? host.assets.map((asset) => join(outDirectory, asset))
+          : undefined,
+      };
+    } catch (err) {
+      return fail(err, phase, undefined, phaseFile);
     }
+  } finally {
+    await lock?.release();
+  }
+}
 
-    return {
-      bundlePath,
-      size,
-      buildTimeMs: Math.round(elapsed),
-      fromCache: false,
-      messages,
-    };
-  } catch (err) {
-    logError(colors.red("❌ Build failed:"));
-    logError(colors.red(err instanceof Error ? err.message : String(err)));
-    throw err;
+/**
+ * A bundle written by a build.
+ */
+interface OutputSpec {
+  /** Extension host the bundle is converted for; unset for the ESM bundle. */
+  target?: BundleTarget;
+  /** Path of the bundle relative to the output directory. */
+  file: string;
+}
+
+/**
+ * The ESM bundle of one bundling pass, after defines and plugin transforms.
+ */
+interface SharedBundle {
+  code: string;
+  /** Source map of the bundler, if it returned one. */
+  emitMap?: SourceMap;
+  /** Maps of the steps so far, from the sources outwards. */
+  sharedMaps: SourceMap[];
+}
+
+/**
+ * Collect the bundle path and size of each target's output.
+ *
+ * @returns The per-target results, or `undefined` for single-bundle builds
+ */
+async function collectTargets(
+  outDirectory: string,
+  builds: readonly OutputSpec[],
+): Promise<BundleResult["targets"]> {
+  if (!builds.some(({ target }) => target)) return undefined;
+  const results: Partial<Record<BundleTarget, TargetResult>> = {};
+  for (const { target, file } of builds) {
+    const bundlePath = join(outDirectory, file);
+    results[target!] = { bundlePath, size: (await Deno.stat(bundlePath)).size };
   }
+  return results;
 }
 
 /**
@@ -242,4 +869,7 @@ export function bundleWebExtension(
 }
 
 // Re-export web-compat validator from separate module to keep concerns isolated
-export { validateWebCompatibility } from "./validate.ts";
+export {
+  analyzeWebCompatibility,
+  validateWebCompatibility,
+} from "./validate.ts";
@@ -0,0 +1,344 @@
+/**
+ * Incremental build cache for the @vsce/bundler package.
+ *
+ * The cache record stored in `outDir/.build-cache.json` captures everything
+ * that determines the bundle contents: a fingerprint of the output-affecting
+ * options, the bundler version, per-module source fingerprints, the
+ * `deno.lock` hash and the hashes of the written outputs. A cached bundle is
+ * only reused when all of them still match.
+ *
+ * Only the modules of the entry point's module graph (plus the project's
+ * config files, including a `deno.json` found in a parent directory) are
+ * tracked, so unrelated files never invalidate the bundle.
+ * Each tracked file is recorded with its mtime and size: when none of them
+ * changed, the graph cannot have changed either and neither the graph nor any
+ * file content needs to be read again.
+ *
+ * @module
+ */
+
+import { join, relative, resolve } from "@std/path";
+
+import type {
+  BundleOptions,
+  CacheMissReason,
+  CompatIssue,
+  TypeDiagnostic,
+} from "../types.ts";
+import {
+  type FileFingerprint,
+  fingerprintFile,
+  isUnchanged,
+  sha256Hex,
+} from "../hash/compute_hash.ts";
+import { findConfigFile, loadDenoConfig } from "./config.ts";
+import { normalizeDefines } from "./define.ts";
+import { type GraphSource, localFiles } from "./graph.ts";
+import { writeFileAtomic } from "./output.ts";
+import { pluginFingerprint } from "./plugins.ts";
+import { BUNDLER_VERSION } from "./version.ts";
+
+/** Name of the cache record file inside `outDir`. */
+export const CACHE_FILE = ".build-cache.json";
+
+/** Version of the cache record layout; bump when the shape changes. */
+const CACHE_SCHEMA_VERSION = 3;
+
+/**
+ * Project files that influence module resolution without being part of the
+ * module graph themselves.
+ */
+const CONFIG_FILES = ["deno.json", "deno.jsonc", "package.json"];
+
+/**
+ * Inputs that determine the bundle contents.
+ * @internal
+ */
+export interface CacheKey {
+  /** Bundler package version that produced the outputs. */
+  bundlerVersion: string;
+  /** Hash of the options that affect the generated output. */
+  optionsFingerprint: string;
+  /**
+   * Fingerprint per module graph file and config file, keyed by path
+   * relative to `projectDir`.
+   */
+  files: Record<string, FileFingerprint>;
+  /** Hash of the project's `deno.lock`, or `null` when there is none. */
+  lockfileHash: string | null;
+}
+
+/**
+ * Cache record persisted after a successful build.
+ * @internal
+ */
+export interface CacheRecord extends CacheKey {
+  /** Layout version of this record. */
+  schemaVersion: number;
+  /** Content hash per written output, keyed by filename inside `outDir`. */
+  outputs: Record<string, string>;
+  /** Web compatibility issues of the build, when it was audited. */
+  diagnostics?: CompatIssue[];
+  /** Type errors of the build, when it was type-checked. */
+  typeDiagnostics?: TypeDiagnostic[];
+}
+
+/**
+ * Compute the fingerprint of the options that change the generated output or
+ * the outcome of the build (the web compatibility audit, the type check).
+ * Options that only affect reporting (logging, verbosity) are excluded.
+ *
+ * @internal
+ */
+export function fingerprintOptions(
+  options: Pick<
+    BundleOptions,
+    | "entryPoint"
+    | "outFile"
+    | "bundler"
+    | "minify"
+    | "minifier"
+    | "sourcemap"
+    | "sourcesContent"
+    | "analyze"
+    | "define"
+    | "targets"
+    | "manifest"
+    | "external"
+    | "validate"
+    | "compat"
+    | "typeCheck"
+    | "plugins"
+  >,
+): Promise<string> {
+  const {
+    entryPoint,
+    outFile,
+    bundler,
+    minify,
+    minifier,
+    sourcemap,
+    sourcesContent,
+    analyze,
+    define,
+    targets,
+    manifest,
+    external,
+    validate,
+    compat,
+    typeCheck,
+    plugins,
+  } = options;
+  const relevant = {
+    entryPoint,
+    outFile,
+    bundler,
+    minify,
+    minifier: minify ? minifier : undefined,
+    sourcemap,
+    sourcesContent: sourcemap === "none" ? undefined : sourcesContent,
+    analyze,
+    define: define && normalizeDefines(define),
+    targets,
+    manifest,
+    external,
+    validate,
+    compat: validate === "off" ? undefined : compat,
+    // Unset when off, so that builds without a type check keep their cache
+    typeCheck: typeCheck === "off" ? undefined : typeCheck,
+    plugins: pluginFingerprint(plugins),
+  };
+  return sha256Hex(new TextEncoder().encode(JSON.stringify(relevant)));
+}
+
+/**
+ * Hash the lockfile the build resolves with, so remote dependency upgrades
+ * invalidate the cache even though the sources are unchanged. That is the
+ * `lock` of the nearest `deno.json`, which may be in a parent directory, or
+ * the project's `deno.lock` when there is no config file.
+ *
+ * @returns The hash, or `null` when there is no lockfile (yet)
+ * @internal
+ */
+export async function hashLockfile(projectDir: string): Promise<string | null> {
+  const configPath = await findConfigFile(projectDir);
+  const lockPath = configPath
+    ? (await loadDenoConfig(configPath)).lock?.path
+    : join(projectDir, "deno.lock");
+  if (lockPath === undefined) return null;
+  try {
+    return await sha256Hex(await Deno.readFile(lockPath));
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return null;
+    throw err;
+  }
+}
+
+/**
+ * Compute the cache key for the current state of the project.
+ *
+ * When a previous record exists and none of its tracked files changed on
+ * disk, its file fingerprints are reused as-is. Otherwise the module graph of
+ * the entry point is resolved and each file is fingerprinted, re-reading only
+ * files whose mtime or size changed.
+ *
+ * @param graph Module graph of the entry point, resolved only when needed
+ * @param previous Cache record of the previous build, if any
+ * @throws {Error} If the module graph cannot be resolved
+ * @internal
+ */
+export async function computeCacheKey(
+  projectDir: string,
+  graph: GraphSource,
+  optionsFingerprint: string,
+  previous?: CacheRecord,
+): Promise<CacheKey> {
+  const lockfileHash = await hashLockfile(projectDir);
+  const key = { bundlerVersion: BUNDLER_VERSION, optionsFingerprint, lockfileHash };
+
+  // The recorded files belong to the graph of the recorded entry point
+  const comparable = previous?.bundlerVersion === BUNDLER_VERSION &&
+    previous.optionsFingerprint === optionsFingerprint;
+  if (comparable && await trackedFilesUnchanged(projectDir, previous.files)) {
+    return { ...key, files: previous.files };
+  }
+
+  const paths = new Set(localFiles(await graph()));
+  for (const name of CONFIG_FILES) paths.add(join(projectDir, name));
+  // The config file the build resolves with, which may be in a parent directory
+  const configPath = await findConfigFile(projectDir);
+  if (configPath) paths.add(configPath);
+
+  const files: Record<string, FileFingerprint> = {};
+  for (const path of paths) {
+    const name = relative(projectDir, path);
+    const fingerprint = await fingerprintFile(path, previous?.files[name]);
+    // Config files only matter when they exist
+    if (fingerprint.hash === null && CONFIG_FILES.includes(name)) continue;
+    files[name] = fingerprint;
+  }
+  return { ...key, files };
+}
+
+/** Whether every tracked file still matches its recorded mtime and size. */
+async function trackedFilesUnchanged(
+  projectDir: string,
+  files: Record<string, FileFingerprint>,
+): Promise<boolean> {
+  for (const [name, fingerprint] of Object.entries(files)) {
+    if (!await isUnchanged(resolve(projectDir, name), fingerprint)) return false;
+  }
+  // A config file that did not exist before may have been created since
+  for (const name of CONFIG_FILES) {
+    if (name in files) continue;
+    try {
+      await Deno.stat(join(projectDir, name));
+      return false;
+    } catch {
+      /* still absent */
+    }
+  }
+  // Including one that is now found before the recorded config file
+  const configPath = await findConfigFile(projectDir);
+  return !configPath || relative(projectDir, configPath) in files;
+}
+
+/**
+ * Read the cache record from `cachePath`.
+ *
+ * @returns The record, or `undefined` when it is missing, unreadable or was
+ *          written by an incompatible version
+ * @internal
+ */
+export async function readCacheRecord(
+  cachePath: string,
+): Promise<CacheRecord | undefined> {
+  try {
+    const record = JSON.parse(await Deno.readTextFile(cachePath));
+    if (record?.schemaVersion !== CACHE_SCHEMA_VERSION) return undefined;
+    return record as CacheRecord;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Persist the cache record for a completed build.
+ *
+ * @param outputs Filenames inside `outDirectory` written by the build
+ * @param diagnostics Web compatibility issues of the build, if audited, so
+ *                    cache hits can report them again
+ * @param typeDiagnostics Type errors of the build, if type-checked
+ * @internal
+ */
+export async function writeCacheRecord(
+  cachePath: string,
+  key: CacheKey,
+  outDirectory: string,
+  outputs: readonly string[],
+  diagnostics?: CompatIssue[],
+  typeDiagnostics?: TypeDiagnostic[],
+): Promise<void> {
+  const record: CacheRecord = {
+    schemaVersion: CACHE_SCHEMA_VERSION,
+    ...key,
+    outputs: await hashOutputs(outDirectory, outputs),
+    diagnostics,
+    typeDiagnostics,
+  };
+  await writeFileAtomic(cachePath, JSON.stringify(record, null, 2));
+}
+
+/**
+ * Compare a stored cache record against the current cache key and the outputs
+ * on disk.
+ *
+ * @returns The reason the cache cannot be used, or `undefined` on a hit
+ * @internal
+ */
+export async function checkCacheRecord(
+  record: CacheRecord | undefined,
+  key: CacheKey,
+  outDirectory: string,
+): Promise<CacheMissReason | undefined> {
+  if (!record) return "no-cache";
+  if (record.bundlerVersion !== key.bundlerVersion) return "bundler-version";
+  if (record.optionsFingerprint !== key.optionsFingerprint) {
+    return "options-changed";
+  }
+  if (record.lockfileHash !== key.lockfileHash) return "lockfile-changed";
+  if (!sameFiles(record.files, key.files)) return "sources-changed";
+
+  for (const [name, hash] of Object.entries(record.outputs)) {
+    let content: Uint8Array;
+    try {
+      content = await Deno.readFile(join(outDirectory, name));
+    } catch {
+      return "output-missing";
+    }
+    if (await sha256Hex(content) !== hash) return "output-modified";
+  }
+  return undefined;
+}
+
+/** Hash each output file inside `outDirectory`. */
+async function hashOutputs(
+  outDirectory: string,
+  outputs: readonly string[],
+): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  for (const name of outputs) {
+    hashes[name] = await sha256Hex(await Deno.readFile(join(outDirectory, name)));
+  }
+  return hashes;
+}
+
+/** Whether two file records have the same files with the same content. */
+function sameFiles(
+  a: Record<string, FileFingerprint>,
+  b: Record<string, FileFingerprint>,
+): boolean {
+  const names = Object.keys(a);
+  if (names.length !== Object.keys(b).length) return false;
+  return names.every((name) => a[name].hash === b[name]?.hash);
+}
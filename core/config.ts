@@ -0,0 +1,229 @@
+/**
+ * Project configuration for the @vsce/bundler package.
+ *
+ * Settings are read from the `bundler` section of the project's `deno.json`
+ * (or `deno.jsonc`), next to Deno's own configuration. Of the latter, the
+ * settings that change how modules are resolved and emitted – the import map,
+ * JSX and decorator compiler options, the lockfile and `vendor` – are read as
+ * well, so the bundler resolves the project exactly like `deno run` would.
+ *
+ * @module
+ */
+
+import { dirname, join, resolve, toFileUrl } from "@std/path";
+import { parse as parseJsonc } from "@std/jsonc";
+
+import type { CompatOptions } from "../types.ts";
+
+/** Config file names, in lookup order. */
+const CONFIG_FILE_NAMES = ["deno.json", "deno.jsonc"];
+
+/**
+ * The `bundler` section of a project's config file.
+ * @internal
+ */
+export interface BundlerConfig {
+  /** Web compatibility audit settings. */
+  compat?: CompatOptions;
+}
+
+/**
+ * A loaded config file.
+ * @internal
+ */
+export interface LoadedConfig {
+  /** Absolute path of the config file. */
+  path: string;
+  /** The `bundler` section (empty when the file has none). */
+  bundler: BundlerConfig;
+}
+
+/**
+ * Find the nearest `deno.json`/`deno.jsonc` in `startDir` or its ancestors,
+ * the same way Deno discovers its configuration.
+ *
+ * @returns The path of the config file, or `undefined` if there is none
+ * @internal
+ */
+export async function findConfigFile(
+  startDir: string,
+): Promise<string | undefined> {
+  let dir = startDir;
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const path = join(dir, name);
+      try {
+        if ((await Deno.stat(path)).isFile) return path;
+      } catch {
+        /* not here */
+      }
+    }
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Read the `bundler` section of the config file at `path`.
+ *
+ * @throws {Error} If the file cannot be read or parsed, or the `bundler`
+ *                 section is not an object
+ * @internal
+ */
+export async function loadConfigFile(path: string): Promise<LoadedConfig> {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonc(await Deno.readTextFile(path));
+  } catch (err) {
+    throw new Error(
+      `Failed to read config file ${path}: ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+    );
+  }
+  const bundler = (parsed as { bundler?: unknown } | null)?.bundler ?? {};
+  if (typeof bundler !== "object" || Array.isArray(bundler)) {
+    throw new Error(`Invalid 'bundler' section in ${path}: expected an object`);
+  }
+  return { path, bundler: bundler as BundlerConfig };
+}
+
+/**
+ * An import map with absolute targets.
+ * @internal
+ */
+export interface ImportMap {
+  imports: Record<string, string>;
+  scopes: Record<string, Record<string, string>>;
+}
+
+/**
+ * Read the import map of the config file at `path`: its `imports` and
+ * `scopes`, or the file its `importMap` field points to. Relative targets
+ * and scopes are resolved against the file declaring them, so the map can be
+ * used from anywhere.
+ *
+ * @throws {Error} If a file cannot be read or parsed
+ * @internal
+ */
+export async function readImportMap(path: string): Promise<ImportMap> {
+  let base = toFileUrl(path);
+  let parsed = parseJsonc(await Deno.readTextFile(path)) as {
+    importMap?: string;
+    imports?: Record<string, string>;
+    scopes?: Record<string, Record<string, string>>;
+  } | null;
+  if (typeof parsed?.importMap === "string" && !parsed.imports) {
+    base = new URL(parsed.importMap, base);
+    parsed = JSON.parse(await Deno.readTextFile(base));
+  }
+  const absolute = (specifiers: Record<string, string> = {}) =>
+    Object.fromEntries(
+      Object.entries(specifiers).map(([key, target]) => [
+        key,
+        /^\.{0,2}\//.test(target) ? new URL(target, base).href : target,
+      ]),
+    );
+  return {
+    imports: absolute(parsed?.imports),
+    scopes: Object.fromEntries(
+      Object.entries(parsed?.scopes ?? {}).map(([scope, specifiers]) => [
+        new URL(scope, base).href,
+        absolute(specifiers),
+      ]),
+    ),
+  };
+}
+
+/**
+ * Compiler options of a config file that change the emitted code.
+ * @internal
+ */
+export interface EmitCompilerOptions {
+  jsx?: string;
+  jsxFactory?: string;
+  jsxFragmentFactory?: string;
+  jsxImportSource?: string;
+  experimentalDecorators?: boolean;
+  emitDecoratorMetadata?: boolean;
+}
+
+/** Keys of {@link EmitCompilerOptions}. */
+const EMIT_COMPILER_OPTIONS = [
+  "jsx",
+  "jsxFactory",
+  "jsxFragmentFactory",
+  "jsxImportSource",
+  "experimentalDecorators",
+  "emitDecoratorMetadata",
+] as const;
+
+/**
+ * The settings of a config file that affect module resolution and emit.
+ * @internal
+ */
+export interface DenoConfig {
+  /** Absolute path of the config file. */
+  path: string;
+  /** The import map, see {@link readImportMap}. */
+  importMap: ImportMap;
+  /** Compiler options that change the emitted code. */
+  compilerOptions: EmitCompilerOptions;
+  /** The lockfile, unless disabled or not created yet. */
+  lock?: {
+    /** Absolute path of the lockfile. */
+    path: string;
+    /** Whether modules missing from the lockfile are rejected. */
+    frozen: boolean;
+  };
+  /** Directory of vendored remote modules, when `vendor` is enabled. */
+  vendorDir?: string;
+}
+
+/**
+ * Read the resolution settings of the config file at `path`: the import map,
+ * the compiler options that change the emitted code, the lockfile (`lock`,
+ * defaulting to `deno.lock` next to the config file) and the `vendor/`
+ * directory.
+ *
+ * @throws {Error} If a file cannot be read or parsed
+ * @internal
+ */
+export async function loadDenoConfig(path: string): Promise<DenoConfig> {
+  const parsed = parseJsonc(await Deno.readTextFile(path)) as {
+    compilerOptions?: Record<string, unknown>;
+    lock?: boolean | string | { path?: string; frozen?: boolean };
+    vendor?: boolean;
+  } | null;
+  const dir = dirname(path);
+
+  const compilerOptions: Record<string, unknown> = {};
+  for (const key of EMIT_COMPILER_OPTIONS) {
+    const value = parsed?.compilerOptions?.[key];
+    if (value !== undefined) compilerOptions[key] = value;
+  }
+
+  const lock = parsed?.lock ?? true;
+  const lockFile = lock === false
+    ? undefined
+    : typeof lock === "string"
+    ? lock
+    : (typeof lock === "object" && lock.path) || "deno.lock";
+  const lockPath = lockFile === undefined ? undefined : resolve(dir, lockFile);
+  const hasLock = lockPath !== undefined &&
+    await Deno.stat(lockPath).then((info) => info.isFile, () => false);
+
+  return {
+    path,
+    importMap: await readImportMap(path),
+    compilerOptions,
+    ...(hasLock && {
+      lock: {
+        path: lockPath!,
+        frozen: typeof lock === "object" && lock.frozen === true,
+      },
+    }),
+    ...(parsed?.vendor === true && { vendorDir: join(dir, "vendor") }),
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Compile-time defines for the @vsce/bundler package.
+ *
+ * Replaces global identifiers and member expressions such as `__DEV__` or
+ * `process.env.NODE_ENV` with constants in the emitted bundle, before the
+ * target conversion and minification. Conditions on the constants are folded
+ * right away, so branches that a define makes unreachable – dev-only
+ * diagnostics, disabled telemetry – are removed from every bundle.
+ *
+ * @module
+ */
+
+import type { DefineValue } from "../types.ts";
+
+/**
+ * Turn a `define` map into the expressions to substitute, sorted by name.
+ * Strings are JavaScript expressions, other values are serialized as JSON.
+ *
+ * @internal
+ */
+export function normalizeDefines(
+  define: Readonly<Record<string, DefineValue>>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.keys(define).sort().map((name) => {
+      const value = define[name];
+      return [name, typeof value === "string" ? value : JSON.stringify(value)];
+    }),
+  );
+}
+
+/**
+ * Substitute `defines` in `code` and remove the code they make unreachable.
+ *
+ * @param code The emitted ESM bundle
+ * @param defines Expressions by identifier or member expression
+ * @param sourcemap Whether to return a map from the result to `code`
+ * @returns The rewritten bundle and its source map
+ * @throws {Error} If a name is not an identifier or member expression, or a
+ *                 value is neither JSON nor an identifier
+ * @internal
+ */
+export async function applyDefines(
+  code: string,
+  defines: Record<string, string>,
+  sourcemap = false,
+): Promise<{ code: string; map?: string }> {
+  const esbuild = await import("npm:esbuild@0.19.2");
+  try {
+    const result = await esbuild.transform(code, {
+      define: defines,
+      // Folds `if (false)` and friends without renaming or compacting
+      minifySyntax: true,
+      sourcemap: sourcemap ? "external" : false,
+    });
+    return { code: result.code, map: sourcemap ? result.map : undefined };
+  } catch (err) {
+    const errors = (err as { errors?: { text: string }[] }).errors;
+    throw new Error(
+      `Invalid define: ${
+        errors?.length
+          ? errors.map((error) => error.text).join("; ")
+          : err instanceof Error
+          ? err.message
+          : String(err)
+      }`,
+    );
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Build errors of the @vsce/bundler package.
+ *
+ * Every failed `bundleExtension` call rejects with a {@link BundleError}: a
+ * stable code, the build phase that failed and, where known, the file, line
+ * and column to point the user at. Errors of the underlying tools – the
+ * bundler, esbuild, terser, the file system – are kept as the `cause`.
+ *
+ * @module
+ */
+
+import { fromFileUrl } from "@std/path";
+
+import type {
+  BuildPhase,
+  BundleErrorCode,
+  BundleErrorOptions,
+} from "../types.ts";
+
+/**
+ * Error of a failed build.
+ *
+ * @example Showing an actionable error
+ * ```ts
+ * try {
+ *   await bundleExtension({ projectDir });
+ * } catch (err) {
+ *   if (!(err instanceof BundleError)) throw err;
+ *   const at = err.file ? ` (${err.file}:${err.line ?? 1}:${err.column ?? 1})` : "";
+ *   console.error(`${err.code} during ${err.phase}${at}: ${err.message}`);
+ * }
+ * ```
+ */
+export class BundleError extends Error {
+  /** Stable code of the failure. */
+  readonly code: BundleErrorCode;
+  /** Build phase that failed. */
+  readonly phase: BuildPhase;
+  /** Absolute path or URL of the file the failure concerns, where known. */
+  readonly file?: string;
+  /** Line in `file` (1-based), where known. */
+  readonly line?: number;
+  /** Column in `file` (1-based), where known. */
+  readonly column?: number;
+
+  constructor(message: string, options: BundleErrorOptions) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = "BundleError";
+    this.code = options.code;
+    this.phase = options.phase;
+    this.file = options.file;
+    this.line = options.line;
+    this.column = options.column;
+  }
+}
+
+/**
+ * Thrown by `bundleExtension` when a plugin hook fails.
+ */
+export class PluginError extends BundleError {
+  /** Name of the failed plugin. */
+  readonly plugin: string;
+  /** The hook that threw. */
+  readonly hook: string;
+
+  constructor(plugin: string, hook: string, phase: BuildPhase, cause: unknown) {
+    super(
+      `Plugin '${plugin}' failed in ${hook}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { code: "PLUGIN_FAILED", phase, cause },
+    );
+    this.name = "PluginError";
+    this.plugin = plugin;
+    this.hook = hook;
+  }
+}
+
+/** Code of an otherwise unclassified failure, by phase. */
+const PHASE_CODES: Record<BuildPhase, BundleErrorCode> = {
+  resolve: "RESOLVE_FAILED",
+  lock: "LOCKED",
+  hash: "BUNDLE_FAILED",
+  cache: "BUNDLE_FAILED",
+  audit: "VALIDATION_FAILED",
+  check: "TYPE_ERROR",
+  bundle: "BUNDLE_FAILED",
+  define: "DEFINE_FAILED",
+  transform: "BUNDLE_FAILED",
+  convert: "CONVERT_FAILED",
+  minify: "MINIFY_FAILED",
+  write: "WRITE_FAILED",
+  verify: "MANIFEST_INVALID",
+};
+
+/** Messages of `@deno/emit` (deno_graph) for imports that cannot be loaded. */
+const RESOLVE_ERROR_RE =
+  /Module not found|Unable to load|Relative import path|not a dependency|Import map|Could not resolve|must not be bundled/;
+
+/** Messages of Deno and the module loader for modules failing the lockfile. */
+const INTEGRITY_ERROR_RE = /Integrity check failed|lockfile is out of date/i;
+
+/** Messages of `@deno/emit` (SWC) for modules that cannot be parsed. */
+const SYNTAX_ERROR_RE = /could not be parsed|Expected|Unexpected|Unterminated|SyntaxError/;
+
+/** A `file:` URL with line and column, e.g. `at file:///src/a.ts:3:7`. */
+const LOCATION_RE = /(file:\/\/\S+?):(\d+):(\d+)/;
+
+/**
+ * Turn any error thrown during `phase` into a {@link BundleError}.
+ *
+ * Bundler errors are classified by their message, as are lockfile integrity
+ * failures in any phase; a `file:` location in the message becomes the
+ * error's file, line and column.
+ *
+ * @param code Code to use instead of the phase's default
+ * @param file File the failure concerns, when the error does not name one
+ * @internal
+ */
+export function toBundleError(
+  err: unknown,
+  phase: BuildPhase,
+  code?: BundleErrorCode,
+  file?: string,
+): BundleError {
+  if (err instanceof BundleError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  const location = message.match(LOCATION_RE);
+  if (!code && INTEGRITY_ERROR_RE.test(message)) code = "INTEGRITY_FAILED";
+  if (!code && phase === "bundle") {
+    code = RESOLVE_ERROR_RE.test(message)
+      ? "RESOLVE_FAILED"
+      : SYNTAX_ERROR_RE.test(message)
+      ? "SYNTAX_ERROR"
+      : undefined;
+  }
+  return new BundleError(message, {
+    code: code ?? PHASE_CODES[phase],
+    phase,
+    ...(location
+      ? {
+        file: fromFileUrl(location[1]),
+        line: Number(location[2]),
+        column: Number(location[3]),
+      }
+      : file && { file }),
+    cause: err,
+  });
+}
@@ -0,0 +1,396 @@
+/**
+ * esbuild bundler backend for the @vsce/bundler package.
+ *
+ * Bundles the entry point with esbuild – tree-shaken, with real externals –
+ * while resolving imports exactly like Deno: each specifier is looked up in
+ * the module graph from `deno info`, which applies the project's import map
+ * and resolves `jsr:`, `https:` and `npm:` specifiers. Remote modules are read
+ * from Deno's module cache and npm packages from its npm cache, so nothing is
+ * resolved or downloaded a second time – and Deno has checked them against
+ * the project's lockfile.
+ *
+ * @module
+ */
+
+import { builtinModules } from "node:module";
+import { fromFileUrl, join, resolve, SEPARATOR, toFileUrl } from "@std/path";
+import type {
+  ImportKind,
+  Loader,
+  Message,
+  OnResolveResult,
+  Plugin,
+  PluginBuild,
+  TsconfigRaw,
+} from "npm:esbuild@0.19.2";
+
+import type { EmitCompilerOptions } from "./config.ts";
+import { BundleError } from "./errors.ts";
+import { assertNotBundled, isExternal } from "./externals.ts";
+import type { GraphNpmPackage, GraphSource, ModuleGraph } from "./graph.ts";
+import { notCachedError } from "./remote.ts";
+
+/**
+ * Options of {@link esbuildBundle}.
+ * @internal
+ */
+export interface EsbuildBundleOptions {
+  /** Absolute path to the project root, used for `deno.json` discovery. */
+  projectDir: string;
+  /** Specifiers provided by the extension host. */
+  external: readonly string[];
+  /** Whether to return a source map. */
+  sourcemap: boolean;
+  /** Whether to embed the sources in the source map. */
+  sourcesContent: boolean;
+  /** JSX and decorator settings of the project's `deno.json`. */
+  compilerOptions?: EmitCompilerOptions;
+  /** Module graph of the entry point. */
+  graph: GraphSource;
+  /** Whether to resolve remote modules only from the module cache and `vendor/`. */
+  offline?: boolean;
+  /** Which build of npm packages to pick, `"deno"` by default. */
+  platform?: ResolvePlatform;
+}
+
+/**
+ * Host a bundle resolves npm packages for: `"deno"` picks the builds Deno
+ * runs, which suit the Node extension host, `"browser"` the builds for the
+ * web extension host.
+ * @internal
+ */
+export type ResolvePlatform = "deno" | "browser";
+
+/** Namespace of the modules read from Deno's remote module cache. */
+const REMOTE_NAMESPACE = "deno-remote";
+
+/** Conditions of package `exports` an import is resolved with, per platform. */
+const CONDITIONS: Record<ResolvePlatform, ReadonlySet<string>> = {
+  // As Deno resolves them
+  deno: new Set(["deno", "node", "import", "module", "default"]),
+  browser: new Set(["browser", "import", "module", "default"]),
+};
+
+/** esbuild loader per Deno media type. */
+const LOADERS: Record<string, Loader> = {
+  JavaScript: "js",
+  Mjs: "js",
+  Cjs: "js",
+  JSX: "jsx",
+  TypeScript: "ts",
+  Mts: "ts",
+  Cts: "ts",
+  TSX: "tsx",
+  Json: "json",
+};
+
+/** Splits a resolved `npm:` specifier into name, version and subpath. */
+const NPM_SPECIFIER_RE = /^npm:\/?((?:@[^/]+\/)?[^@/]+)@([^/]+)(?:\/(.+))?$/;
+
+/** Splits a bare specifier into package name and subpath. */
+const BARE_SPECIFIER_RE = /^((?:@[^/]+\/)?[^/]+)(?:\/(.+))?$/;
+
+/**
+ * Bundle `entry` into a single ESM module with esbuild.
+ *
+ * @param entry Absolute path to the entry point
+ * @returns The bundle and, if requested, its source map, with `file:` URLs
+ *          as sources like `@deno/emit` returns them
+ * @throws {BundleError} If esbuild fails, located at its first error, or an
+ *                       offline build misses remote modules
+ * @throws {Error} If the module graph cannot be resolved
+ * @internal
+ */
+export async function esbuildBundle(
+  entry: string,
+  options: EsbuildBundleOptions,
+): Promise<{ code: string; map?: string }> {
+  const {
+    projectDir,
+    external,
+    sourcemap,
+    sourcesContent,
+    compilerOptions = {},
+    offline = false,
+    platform = "deno",
+  } = options;
+  const graph = await options.graph();
+  if (offline) {
+    const missing = graph.modules
+      .filter((module) => module.error && !module.specifier.startsWith("file:"))
+      .map((module) => module.specifier);
+    if (missing.length > 0) throw notCachedError(missing);
+  }
+  const esbuild = await import("npm:esbuild@0.19.2");
+  // Never written; the map's sources are relative to its directory
+  const outfile = join(projectDir, "bundle.js");
+  let result;
+  try {
+    result = await esbuild.build({
+      entryPoints: [entry],
+      absWorkingDir: projectDir,
+      outfile,
+      bundle: true,
+      write: false,
+      format: "esm",
+      platform: "neutral",
+      sourcemap: sourcemap ? "external" : false,
+      sourcesContent,
+      logLevel: "silent",
+      tsconfigRaw: { compilerOptions: tsconfigOptions(compilerOptions) },
+      plugins: [denoResolver(graph, external, platform)],
+    });
+  } catch (err) {
+    throw buildFailure(err, projectDir);
+  }
+
+  const code = result.outputFiles.find((file) => file.path === outfile)!.text;
+  const mapFile = result.outputFiles.find((file) => file.path === `${outfile}.map`);
+  if (!mapFile) return { code };
+  const map = JSON.parse(mapFile.text);
+  map.sources = (map.sources as string[]).map((source) =>
+    source.startsWith(`${REMOTE_NAMESPACE}:`)
+      ? source.slice(REMOTE_NAMESPACE.length + 1)
+      : toFileUrl(resolve(projectDir, source)).href
+  );
+  return { code, map: JSON.stringify(map) };
+}
+
+/**
+ * esbuild's equivalent of Deno's JSX and decorator compiler options. esbuild
+ * has no precompiled JSX, so `precompile` falls back to the automatic runtime.
+ */
+function tsconfigOptions(
+  options: EmitCompilerOptions,
+): NonNullable<TsconfigRaw["compilerOptions"]> {
+  const { jsx, emitDecoratorMetadata: _, ...rest } = options;
+  return {
+    ...rest,
+    ...(jsx && {
+      jsx: (jsx === "precompile" ? "react-jsx" : jsx) as NonNullable<
+        TsconfigRaw["compilerOptions"]
+      >["jsx"],
+    }),
+  };
+}
+
+/**
+ * Locate and classify an esbuild build failure at its first error. Errors of
+ * the resolver plugin and unresolvable imports are resolution failures, other
+ * located errors are syntax errors.
+ */
+function buildFailure(err: unknown, projectDir: string): unknown {
+  const [first] = (err as { errors?: Message[] }).errors ?? [];
+  if (!first) return err;
+  const location = first.location;
+  const code = first.pluginName === "deno-resolver" ||
+      first.text.startsWith("Could not resolve")
+    ? "RESOLVE_FAILED"
+    : location
+    ? "SYNTAX_ERROR"
+    : "BUNDLE_FAILED";
+  return new BundleError((err as Error).message, {
+    code,
+    phase: "bundle",
+    ...(location && {
+      file: location.file.startsWith(`${REMOTE_NAMESPACE}:`)
+        ? location.file.slice(REMOTE_NAMESPACE.length + 1)
+        : resolve(projectDir, location.file),
+      line: location.line,
+      column: location.column + 1,
+    }),
+    cause: err,
+  });
+}
+
+/**
+ * esbuild plugin resolving imports through the Deno module graph.
+ *
+ * Imports of graph modules use the graph's resolution; bare imports inside
+ * npm packages are resolved against the package's dependencies, since Deno's
+ * npm cache has no `node_modules` layout. Everything else – relative imports
+ * inside npm packages – is left to esbuild.
+ */
+function denoResolver(
+  graph: ModuleGraph,
+  external: readonly string[],
+  platform: ResolvePlatform,
+): Plugin {
+  const modules = new Map(graph.modules.map((module) => [module.specifier, module]));
+  const packages = Object.values(graph.npmPackages);
+
+  /** The npm package a file of Deno's npm cache belongs to. */
+  const packageOf = (path: string) =>
+    packages
+      .filter((pkg) => pkg.localPath && path.startsWith(`${pkg.localPath}${SEPARATOR}`))
+      .sort((a, b) => b.localPath!.length - a.localPath!.length)[0];
+
+  const resolveNpm = (
+    build: PluginBuild,
+    specifier: string,
+    kind: ImportKind,
+  ): Promise<OnResolveResult> => {
+    assertNotBundled(specifier, external);
+    const [, name, version, subpath] = specifier.match(NPM_SPECIFIER_RE) ?? [];
+    const key = modules.get(specifier)?.npmPackage;
+    const pkg = (key && graph.npmPackages[key]) ||
+      packages.find((candidate) => candidate.name === name && candidate.version === version);
+    if (!pkg?.localPath) {
+      throw new Error(`npm package ${name}@${version} is not in the Deno npm cache`);
+    }
+    return resolvePackage(build, pkg, subpath, kind, platform);
+  };
+
+  return {
+    name: "deno-resolver",
+    setup(build) {
+      build.onResolve({ filter: /.*/ }, (args) => {
+        if (args.kind === "entry-point" || !args.importer) return undefined;
+        if (isExternal(args.path, external) || args.path.startsWith("node:")) {
+          return { path: args.path, external: true };
+        }
+
+        const importer = args.namespace === REMOTE_NAMESPACE
+          ? args.importer
+          : toFileUrl(args.importer).href;
+        const module = modules.get(importer);
+        if (module) {
+          const dependency = module.dependencies.find((dep) => dep.specifier === args.path);
+          if (!dependency?.resolved) {
+            throw new Error(
+              dependency?.error ?? `Cannot resolve '${args.path}' from ${importer}`,
+            );
+          }
+          const resolved = dependency.resolved;
+          if (resolved.startsWith("file:")) return { path: fromFileUrl(resolved) };
+          if (resolved.startsWith("npm:")) return resolveNpm(build, resolved, args.kind);
+          if (resolved.startsWith("node:")) return { path: resolved, external: true };
+          return { path: resolved, namespace: REMOTE_NAMESPACE };
+        }
+
+        // A bare import inside an npm package
+        const pkg = packageOf(args.importer);
+        const [, name, subpath] = args.path.match(BARE_SPECIFIER_RE) ?? [];
+        if (!pkg || args.path.startsWith(".") || !name) return undefined;
+        if (builtinModules.includes(name)) return { path: args.path, external: true };
+        const dependency = pkg.dependencies
+          .map((key) => graph.npmPackages[key])
+          .find((candidate) => candidate?.name === name);
+        if (!dependency?.localPath) return undefined;
+        return resolvePackage(build, dependency, subpath, args.kind, platform);
+      });
+
+      build.onLoad({ filter: /.*/, namespace: REMOTE_NAMESPACE }, async (args) => {
+        const module = modules.get(args.path);
+        if (!module?.local) {
+          throw new Error(`Module ${args.path} is not in the Deno module cache`);
+        }
+        return {
+          contents: await Deno.readFile(module.local),
+          loader: LOADERS[module.mediaType ?? ""] ?? "js",
+        };
+      });
+    },
+  };
+}
+
+/**
+ * Resolve `subpath` of an unpacked npm package through its `exports`, or its
+ * entry fields for the package itself.
+ */
+async function resolvePackage(
+  build: PluginBuild,
+  pkg: GraphNpmPackage,
+  subpath: string | undefined,
+  kind: ImportKind,
+  platform: ResolvePlatform,
+): Promise<OnResolveResult> {
+  const dir = pkg.localPath!;
+  const manifest = JSON.parse(await Deno.readTextFile(join(dir, "package.json")));
+  const target = packageTarget(manifest, subpath, platform);
+  if (target === undefined) {
+    throw new Error(
+      `Package subpath '${subpath ? `./${subpath}` : "."}' is not exported by ${pkg.name}@${pkg.version}`,
+    );
+  }
+  const resolved = await build.resolve(`./${target.replace(/^\.\//, "")}`, {
+    resolveDir: dir,
+    kind,
+  });
+  return resolved.errors.length > 0
+    ? { errors: resolved.errors }
+    : { path: resolved.path, sideEffects: resolved.sideEffects };
+}
+
+/**
+ * The file `subpath` of an npm package resolves to for `platform`, relative
+ * to the package directory: looked up in its `exports`, or else taken from
+ * its `main` – preferring a `browser` or `module` entry for browsers.
+ *
+ * @param manifest The package's parsed `package.json`
+ * @returns The target, or `undefined` if the package does not export `subpath`
+ * @internal
+ */
+export function packageTarget(
+  manifest: Record<string, unknown>,
+  subpath: string | undefined,
+  platform: ResolvePlatform,
+): string | undefined {
+  if (manifest.exports !== undefined && manifest.exports !== null) {
+    return exportTarget(manifest.exports, subpath ? `./${subpath}` : ".", CONDITIONS[platform]);
+  }
+  if (subpath) return subpath;
+  const fields = platform === "browser" ? ["browser", "module", "main"] : ["main"];
+  const main = fields.map((field) => manifest[field]).find((value) => typeof value === "string");
+  return (main as string | undefined) ?? "index.js";
+}
+
+/** Look up `key` (`.` or `./subpath`) in a package's `exports`. */
+function exportTarget(
+  exports: unknown,
+  key: string,
+  conditions: ReadonlySet<string>,
+): string | undefined {
+  const isSubpathMap = typeof exports === "object" && !Array.isArray(exports) &&
+    Object.keys(exports as object).some((name) => name.startsWith("."));
+  const map = (isSubpathMap ? exports : { ".": exports }) as Record<string, unknown>;
+  if (key in map) return conditionalTarget(map[key], conditions);
+  for (const [pattern, value] of Object.entries(map)) {
+    const star = pattern.indexOf("*");
+    if (star < 0) continue;
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      key.length >= pattern.length - 1 && key.startsWith(prefix) &&
+      key.endsWith(suffix)
+    ) {
+      const match = key.slice(prefix.length, key.length - suffix.length);
+      return conditionalTarget(value, conditions)?.replaceAll("*", match);
+    }
+  }
+  return undefined;
+}
+
+/** Pick the target of an `exports` entry for the given conditions. */
+function conditionalTarget(
+  value: unknown,
+  conditions: ReadonlySet<string>,
+): string | undefined {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const target = conditionalTarget(item, conditions);
+      if (target !== undefined) return target;
+    }
+    return undefined;
+  }
+  if (value && typeof value === "object") {
+    // The first listed condition that applies wins, as in Node
+    for (const [condition, nested] of Object.entries(value)) {
+      if (!conditions.has(condition)) continue;
+      const target = conditionalTarget(nested, conditions);
+      if (target !== undefined) return target;
+    }
+  }
+  return undefined;
+}
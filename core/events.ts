@@ -0,0 +1,94 @@
+/**
+ * Build events of the @vsce/bundler package.
+ *
+ * `bundleExtension` reports its progress as {@link BuildEvent}s – phases with
+ * their timings, the cache decision, messages, written files and the outcome –
+ * to the configured {@link BuildReporter}s. This module stamps and dispatches
+ * the events of one build and times its phases.
+ *
+ * @module
+ */
+
+import type {
+  BuildEvent,
+  BuildMessageLevel,
+  BuildPhase,
+  BuildReporter,
+} from "../types.ts";
+
+/** A build event before it is stamped with its time. */
+export type UnstampedEvent<E extends BuildEvent = BuildEvent> = E extends BuildEvent
+  ? Omit<E, "time">
+  : never;
+
+/** Location of a message. */
+interface MessageLocation {
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Dispatches the events of one build to its reporters.
+ * @internal
+ */
+export class BuildEvents {
+  /** Text of the `info` and `warning` messages, for `BundleResult.messages`. */
+  readonly messages: string[] = [];
+  readonly #reporters: readonly BuildReporter[];
+  #phase: { phase: BuildPhase; file?: string; start: number } | undefined;
+
+  constructor(reporters: readonly BuildReporter[]) {
+    this.#reporters = reporters;
+  }
+
+  /** Stamp `event` with the current time and pass it to every reporter. */
+  emit(event: UnstampedEvent): void {
+    const { type, ...fields } = event;
+    const stamped = { type, time: Date.now(), ...fields } as BuildEvent;
+    if (
+      stamped.type === "message" &&
+      (stamped.level === "info" || stamped.level === "warning")
+    ) {
+      this.messages.push(stamped.message);
+    }
+    for (const reporter of this.#reporters) reporter(stamped);
+  }
+
+  /** End the current phase, if any, and start `phase`. */
+  enter(phase: BuildPhase, file?: string): void {
+    this.end();
+    this.emit({ type: "phase-start", phase, ...(file && { file }) });
+    this.#phase = { phase, file, start: performance.now() };
+  }
+
+  /** End the current phase, if any. */
+  end(): void {
+    if (!this.#phase) return;
+    const { phase, file, start } = this.#phase;
+    this.#phase = undefined;
+    this.emit({
+      type: "phase-end",
+      phase,
+      ...(file && { file }),
+      durationMs: performance.now() - start,
+    });
+  }
+
+  /** Report a message. */
+  message(
+    level: BuildMessageLevel,
+    message: string,
+    location: MessageLocation = {},
+  ): void {
+    const { file, line, column } = location;
+    this.emit({
+      type: "message",
+      level,
+      message,
+      ...(file !== undefined && { file }),
+      ...(line !== undefined && { line }),
+      ...(column !== undefined && { column }),
+    });
+  }
+}
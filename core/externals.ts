@@ -0,0 +1,116 @@
+/**
+ * External modules for the @vsce/bundler package.
+ *
+ * Modules provided by the extension host at runtime – `vscode` above all –
+ * must never be inlined into the bundle. `@deno/emit` has no notion of
+ * externals, so each external is mapped to a placeholder URL through the
+ * import map, reported as external by the module loader and restored to its
+ * original specifier in the emitted code. The esbuild backend marks them as
+ * external directly.
+ *
+ * @module
+ */
+
+import { createCache } from "@deno/cache-dir";
+import type { bundle } from "@deno/emit";
+
+import type { ImportMap } from "./config.ts";
+
+/** Options accepted by `@deno/emit`'s `bundle`. */
+type EmitOptions = NonNullable<Parameters<typeof bundle>[1]>;
+
+/** Module loader used by `@deno/emit`. */
+type Loader = NonNullable<EmitOptions["load"]>;
+
+/** Externals used when `BundleOptions.external` is not set. @internal */
+export const DEFAULT_EXTERNALS: readonly string[] = ["vscode"];
+
+/** Base URL of the placeholders externals are resolved to. */
+const PLACEHOLDER_BASE = "https://external.vsce-bundler.invalid/";
+
+/** Matches a quoted placeholder URL in emitted code. */
+const PLACEHOLDER_RE = /(["'])https:\/\/external\.vsce-bundler\.invalid\/([^"']+)\1/g;
+
+/**
+ * Whether `specifier` refers to one of the externals, either directly or
+ * through a subpath (`vscode/foo`).
+ *
+ * @internal
+ */
+export function isExternal(
+  specifier: string,
+  external: readonly string[],
+): boolean {
+  return external.some((name) =>
+    specifier === name || specifier.startsWith(`${name}/`)
+  );
+}
+
+/**
+ * Fail for an `npm:` specifier that resolves one of the externals to an
+ * actual package, e.g. the deprecated `npm:vscode`.
+ *
+ * @throws {Error} If `specifier` is an npm package listed in `external`
+ * @internal
+ */
+export function assertNotBundled(
+  specifier: string,
+  external: readonly string[],
+): void {
+  const npmPackage = specifier.match(/^npm:\/?((?:@[^/]+\/)?[^@/]+)/)?.[1];
+  if (npmPackage && isExternal(npmPackage, external)) {
+    throw new Error(
+      `External module '${npmPackage}' was resolved to ${specifier}; it is provided by the extension host and must not be bundled`,
+    );
+  }
+}
+
+/**
+ * Build the `@deno/emit` options that keep `external` out of the bundle.
+ *
+ * @param external Specifiers provided by the extension host
+ * @param importMap The project's import map; its mappings of externals are
+ *                  overridden
+ * @param load Module loader to wrap (defaults to Deno's module cache)
+ * @returns The import map and module loader to pass to `bundle`
+ * @internal
+ */
+export function externalEmitOptions(
+  external: readonly string[],
+  importMap: ImportMap = { imports: {}, scopes: {} },
+  load: Loader = createCache().load,
+): Pick<EmitOptions, "importMap" | "load"> {
+  const imports: Record<string, string> = { ...importMap.imports };
+  for (const name of external) {
+    imports[name] = `${PLACEHOLDER_BASE}${name}`;
+    imports[`${name}/`] = `${PLACEHOLDER_BASE}${name}/`;
+  }
+  return {
+    importMap: { imports, scopes: importMap.scopes },
+    load: externalLoader(external, load),
+  };
+}
+
+/**
+ * Wrap a module loader so placeholders are reported as external modules and
+ * externals resolved to an actual package fail the build.
+ */
+function externalLoader(external: readonly string[], load: Loader): Loader {
+  return async (specifier, ...args) => {
+    if (specifier.startsWith(PLACEHOLDER_BASE)) {
+      return { kind: "external", specifier };
+    }
+    assertNotBundled(specifier, external);
+    return await load(specifier, ...args);
+  };
+}
+
+/**
+ * Replace the placeholders of externals in emitted code with the original
+ * specifiers, e.g. `from "vscode"`.
+ *
+ * @internal
+ */
+export function restoreExternals(code: string): string {
+  return code.replace(PLACEHOLDER_RE, "$1$2$1");
+}
@@ -0,0 +1,112 @@
+/**
+ * Output formats for web compatibility issues.
+ *
+ * Issues can be rendered as the legacy one-line strings returned by
+ * `validateWebCompatibility`, as plain JSON, or as a SARIF 2.1.0 log for
+ * GitHub code scanning and editor integrations.
+ *
+ * @module
+ */
+
+import { relative, toFileUrl } from "@std/path";
+
+import type { CompatIssue, CompatSeverity, SarifOptions } from "../types.ts";
+import { BUNDLER_NAME, BUNDLER_VERSION } from "./version.ts";
+
+/** SARIF result levels per issue severity. */
+const SARIF_LEVELS: Record<CompatSeverity, "error" | "warning" | "note"> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+};
+
+/**
+ * Format an issue as a single line, e.g.
+ * `/ext/extension.ts: imports Node builtin module 'fs'`.
+ *
+ * This is the format returned by `validateWebCompatibility`.
+ *
+ * @param issue The issue to format
+ * @returns The formatted line
+ */
+export function formatCompatIssue(issue: CompatIssue): string {
+  return `${issue.file}: ${issue.message}`;
+}
+
+/**
+ * Serialize issues as a pretty-printed JSON array.
+ *
+ * @param issues Issues reported by `analyzeWebCompatibility`
+ * @returns The JSON document
+ */
+export function formatCompatIssuesJson(issues: readonly CompatIssue[]): string {
+  return JSON.stringify(issues, null, 2);
+}
+
+/**
+ * Serialize issues as a SARIF 2.1.0 log with a single run.
+ *
+ * @param issues Issues reported by `analyzeWebCompatibility`
+ * @param options SARIF output options
+ * @returns The SARIF JSON document
+ *
+ * @example Writing a SARIF report for GitHub code scanning
+ * ```ts
+ * import {
+ *   analyzeWebCompatibility,
+ *   formatCompatIssuesSarif,
+ * } from "@vsce/bundler";
+ *
+ * const issues = await analyzeWebCompatibility("/repo/extension.ts");
+ * await Deno.writeTextFile(
+ *   "compat.sarif",
+ *   formatCompatIssuesSarif(issues, { baseDir: "/repo" }),
+ * );
+ * ```
+ */
+export function formatCompatIssuesSarif(
+  issues: readonly CompatIssue[],
+  options: SarifOptions = {},
+): string {
+  const { baseDir } = options;
+  const ruleIds = [...new Set(issues.map((issue) => issue.ruleId))].sort();
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: BUNDLER_NAME,
+          version: BUNDLER_VERSION,
+          informationUri: "https://jsr.io/@vsce/bundler",
+          rules: ruleIds.map((id) => ({ id })),
+        },
+      },
+      results: issues.map((issue) => ({
+        ruleId: issue.ruleId,
+        ruleIndex: ruleIds.indexOf(issue.ruleId),
+        level: SARIF_LEVELS[issue.severity],
+        message: {
+          text: issue.suggestion
+            ? `${issue.message}. ${issue.suggestion}`
+            : issue.message,
+        },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: {
+              uri: baseDir
+                ? relative(baseDir, issue.file).replaceAll("\\", "/")
+                : toFileUrl(issue.file).href,
+            },
+            region: { startLine: issue.line, startColumn: issue.column },
+          },
+        }],
+        ...(issue.importChain && {
+          properties: { importChain: issue.importChain },
+        }),
+      })),
+    }],
+  };
+  return JSON.stringify(log, null, 2);
+}
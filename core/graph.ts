@@ -0,0 +1,227 @@
+/**
+ * Module graph discovery for the @vsce/bundler package.
+ *
+ * The graph is resolved by `deno info --json`, so it follows exactly the same
+ * resolution rules as the bundler itself: the project's `deno.json` import
+ * map, JSR and npm specifiers, and static as well as dynamic imports. Deno
+ * also checks remote modules against the project's lockfile and reads them
+ * from its `vendor/` directory, when enabled.
+ *
+ * @module
+ */
+
+import { fromFileUrl } from "@std/path";
+
+/** A position inside a module, zero-based as reported by `deno info`. */
+export interface GraphPosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * A single import of a module.
+ * @internal
+ */
+export interface GraphDependency {
+  /** Specifier as written in the source. */
+  specifier: string;
+  /** Fully resolved specifier, when resolution succeeded. */
+  resolved?: string;
+  /** Resolution error, when resolution failed. */
+  error?: string;
+  /** Location of the specifier in the importing module. */
+  span?: { start: GraphPosition; end: GraphPosition };
+  /** Whether this is a dynamic `import()`. */
+  isDynamic: boolean;
+}
+
+/**
+ * A module in the graph.
+ * @internal
+ */
+export interface GraphModule {
+  /** Fully resolved specifier (`file:`, `https:`, `npm:`, `node:` …). */
+  specifier: string;
+  /** Path of the module on disk (local files and cached remote modules). */
+  local?: string;
+  /** Media type reported by Deno, e.g. `TypeScript` or `JavaScript`. */
+  mediaType?: string;
+  /** Load error, e.g. for a missing file. */
+  error?: string;
+  /** For `npm:` modules, the key of the package in {@link ModuleGraph.npmPackages}. */
+  npmPackage?: string;
+  /** Imports of this module. */
+  dependencies: GraphDependency[];
+}
+
+/**
+ * An npm package resolved into the graph.
+ * @internal
+ */
+export interface GraphNpmPackage {
+  /** Package name. */
+  name: string;
+  /** Resolved version. */
+  version: string;
+  /** Keys of the packages this package depends on. */
+  dependencies: string[];
+  /** Directory of the unpacked package in the npm cache, if known. */
+  localPath?: string;
+}
+
+/**
+ * Module graph rooted at an extension entry point.
+ * @internal
+ */
+export interface ModuleGraph {
+  /** Resolved specifier of the entry point. */
+  root: string;
+  /** All modules reachable from the root. */
+  modules: GraphModule[];
+  /** npm packages used by the graph, keyed by `name@version`. */
+  npmPackages: Record<string, GraphNpmPackage>;
+}
+
+/**
+ * Options of {@link loadModuleGraph}.
+ * @internal
+ */
+export interface GraphOptions {
+  /**
+   * Resolve remote modules only from the module cache and `vendor/`; modules
+   * found in neither are reported with an `error`.
+   */
+  offline?: boolean;
+}
+
+/**
+ * Environment of an offline `deno info`. It has no `--cached-only`, so all
+ * downloads are routed through a proxy that refuses every connection.
+ */
+const OFFLINE_ENV: Record<string, string> = {
+  HTTP_PROXY: "http://127.0.0.1:9",
+  HTTPS_PROXY: "http://127.0.0.1:9",
+  http_proxy: "http://127.0.0.1:9",
+  https_proxy: "http://127.0.0.1:9",
+  NO_PROXY: "",
+  no_proxy: "",
+};
+
+/** Shape of a dependency entry in `deno info --json` output. */
+interface InfoDependency {
+  specifier: string;
+  code?: {
+    specifier?: string;
+    error?: string;
+    span?: { start: GraphPosition; end: GraphPosition };
+  };
+  isDynamic?: boolean;
+}
+
+/** Shape of a module entry in `deno info --json` output. */
+interface InfoModule {
+  specifier: string;
+  local?: string;
+  mediaType?: string;
+  error?: string;
+  npmPackage?: string;
+  dependencies?: InfoDependency[];
+}
+
+/**
+ * Resolve the module graph of `entry` with `deno info --json`.
+ *
+ * @param entry Absolute path to the entry point
+ * @param cwd Directory used for config (`deno.json`) discovery, usually the
+ *            project directory
+ * @returns The module graph; unresolvable imports are reported on the
+ *          dependency instead of failing the whole graph
+ * @throws {Error} If `deno info` itself fails, e.g. because the entry point
+ *                 does not exist or a remote module does not match the
+ *                 lockfile
+ * @internal
+ */
+export async function loadModuleGraph(
+  entry: string,
+  cwd: string,
+  options: GraphOptions = {},
+): Promise<ModuleGraph> {
+  const { success, stdout, stderr } = await new Deno.Command(Deno.execPath(), {
+    // Imports from any host, as `@deno/emit` loads them
+    args: ["info", "--json", "--allow-import", entry],
+    cwd,
+    ...(options.offline && { env: OFFLINE_ENV }),
+    stdout: "piped",
+    stderr: "piped",
+  }).output();
+  if (!success) {
+    throw new Error(
+      `Failed to resolve module graph for ${entry}: ${
+        new TextDecoder().decode(stderr).trim()
+      }`,
+    );
+  }
+
+  const info = JSON.parse(new TextDecoder().decode(stdout)) as {
+    roots: string[];
+    modules: InfoModule[];
+    redirects?: Record<string, string>;
+    npmPackages?: Record<string, GraphNpmPackage>;
+  };
+  const redirects = info.redirects ?? {};
+  return {
+    root: redirects[info.roots[0]] ?? info.roots[0],
+    modules: info.modules.map((module) => ({
+      specifier: module.specifier,
+      local: module.local,
+      mediaType: module.mediaType,
+      error: module.error,
+      npmPackage: module.npmPackage,
+      dependencies: (module.dependencies ?? [])
+        .filter((dep) => dep.code)
+        .map((dep) => ({
+          specifier: dep.specifier,
+          resolved: dep.code!.specifier &&
+            (redirects[dep.code!.specifier] ?? dep.code!.specifier),
+          error: dep.code!.error,
+          span: dep.code!.span,
+          isDynamic: dep.isDynamic ?? false,
+        })),
+    })),
+    npmPackages: info.npmPackages ?? {},
+  };
+}
+
+/**
+ * Provides the module graph of a build's entry point.
+ * @internal
+ */
+export type GraphSource = () => Promise<ModuleGraph>;
+
+/**
+ * A {@link GraphSource} that resolves the graph of `entry` on first use and
+ * then returns the same graph, so that the phases of a build share a single
+ * `deno info` run.
+ *
+ * @internal
+ */
+export function sharedModuleGraph(
+  entry: string,
+  cwd: string,
+  options: GraphOptions = {},
+): GraphSource {
+  let graph: Promise<ModuleGraph> | undefined;
+  return () => graph ??= loadModuleGraph(entry, cwd, options);
+}
+
+/**
+ * Paths of all local (`file:`) modules in the graph, including modules that
+ * failed to load because they do not exist (yet).
+ *
+ * @internal
+ */
+export function localFiles(graph: ModuleGraph): string[] {
+  return graph.modules
+    .filter((module) => module.specifier.startsWith("file:"))
+    .map((module) => module.local ?? fromFileUrl(module.specifier));
+}
@@ -0,0 +1,382 @@
+/**
+ * Manifest linter for the @vsce/bundler package.
+ *
+ * Cross-checks the contributions declared in `package.json` against what the
+ * extension's code registers with the VS Code API: command ids, activation
+ * events, views and configuration settings. Only modules reachable from the
+ * entry point are considered, i.e. the code that ends up in the bundle. Web
+ * extensions are additionally checked for a `browser` entry and workspace
+ * trust declarations.
+ *
+ * @module
+ */
+
+import { join } from "@std/path";
+
+import type { CompatIssue, ManifestLintOptions } from "../types.ts";
+import { loadModuleGraph } from "./graph.ts";
+import { type ExtensionManifest, readManifest } from "./manifest.ts";
+import { MANIFEST_RULES } from "./rules.ts";
+import {
+  type ConfigurationRead,
+  isScannable,
+  scanRegistrations,
+  type SourcePosition,
+  type StringArgument,
+} from "./scan.ts";
+
+/** A registration found in a module of the extension. */
+interface Located<T> {
+  file: string;
+  at: T;
+}
+
+/** Registrations of all modules reachable from the entry point. */
+interface Registrations {
+  commands: Located<StringArgument>[];
+  views: Located<StringArgument>[];
+  configurationReads: Located<ConfigurationRead>[];
+}
+
+/**
+ * Create an issue for one of the manifest rules.
+ */
+function manifestIssue(
+  ruleId: string,
+  file: string,
+  position: SourcePosition,
+  message: string,
+  suggestion?: string,
+): CompatIssue {
+  return {
+    file,
+    line: position.line,
+    column: position.column,
+    ruleId,
+    severity: MANIFEST_RULES[ruleId].severity,
+    message,
+    ...(suggestion && { suggestion }),
+  };
+}
+
+/**
+ * Position of the first match of `pattern` in `text`, or the start of the
+ * file when there is none.
+ */
+function locate(text: string, pattern: RegExp): SourcePosition {
+  const index = text.search(pattern);
+  if (index < 0) return { line: 1, column: 1 };
+  const before = text.slice(0, index).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/** Pattern matching the JSON string `value`, optionally as `"key": value`. */
+function jsonPattern(value: string, key?: string): RegExp {
+  const literal = JSON.stringify(value).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(key ? `"${key}"\\s*:\\s*${literal}` : literal);
+}
+
+/**
+ * Scan every local module reachable from `entry` for registrations.
+ */
+async function collectRegistrations(
+  entry: string,
+  projectDir: string,
+): Promise<Registrations> {
+  const graph = await loadModuleGraph(entry, projectDir);
+  const registrations: Registrations = {
+    commands: [],
+    views: [],
+    configurationReads: [],
+  };
+  for (const module of graph.modules) {
+    if (!module.specifier.startsWith("file:") || !module.local) continue;
+    if (!isScannable(module.mediaType)) continue;
+    const file = module.local;
+    const scan = await scanRegistrations(
+      await Deno.readTextFile(file),
+      file,
+      module.mediaType,
+    );
+    registrations.commands.push(...scan.commands.map((at) => ({ file, at })));
+    registrations.views.push(...scan.views.map((at) => ({ file, at })));
+    registrations.configurationReads.push(
+      ...scan.configurationReads.map((at) => ({ file, at })),
+    );
+  }
+  return registrations;
+}
+
+/** The well-formed contributions of the manifest. */
+interface Contributions {
+  commands: string[];
+  views: string[];
+  settings: string[];
+  activationEvents: string[];
+}
+
+/** Whether `value` is a JSON object. */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read the contributions of the manifest. Sections and entries that are not
+ * shaped the way VS Code expects are skipped and passed to `malformed`, along
+ * with their key in `package.json`.
+ */
+function readContributions(
+  manifest: ExtensionManifest,
+  malformed: (key: string, message: string) => void,
+): Contributions {
+  const contributions: Contributions = {
+    commands: [],
+    views: [],
+    settings: [],
+    activationEvents: [],
+  };
+
+  const events: unknown = manifest.activationEvents ?? [];
+  if (Array.isArray(events)) {
+    for (const event of events) {
+      if (typeof event === "string") contributions.activationEvents.push(event);
+      else malformed("activationEvents", "'activationEvents' contains an entry that is not a string");
+    }
+  } else {
+    malformed("activationEvents", "'activationEvents' is not an array");
+  }
+
+  const contributes: unknown = manifest.contributes ?? {};
+  if (!isObject(contributes)) {
+    malformed("contributes", "'contributes' is not an object");
+    return contributions;
+  }
+
+  const commands = contributes.commands ?? [];
+  if (Array.isArray(commands)) {
+    for (const command of commands) {
+      if (isObject(command) && typeof command.command === "string") {
+        contributions.commands.push(command.command);
+      } else {
+        malformed("commands", "'contributes.commands' contains an entry without a string 'command'");
+      }
+    }
+  } else {
+    malformed("commands", "'contributes.commands' is not an array");
+  }
+
+  const views = contributes.views ?? {};
+  if (isObject(views)) {
+    for (const [container, entries] of Object.entries(views)) {
+      if (!Array.isArray(entries)) {
+        malformed(container, `'contributes.views.${container}' is not an array`);
+        continue;
+      }
+      for (const view of entries) {
+        if (isObject(view) && typeof view.id === "string") {
+          contributions.views.push(view.id);
+        } else {
+          malformed(container, `'contributes.views.${container}' contains a view without a string 'id'`);
+        }
+      }
+    }
+  } else {
+    malformed("views", "'contributes.views' is not an object");
+  }
+
+  const configuration = contributes.configuration ?? [];
+  for (const entry of Array.isArray(configuration) ? configuration : [configuration]) {
+    const properties = isObject(entry) ? entry.properties ?? {} : undefined;
+    if (isObject(properties)) {
+      contributions.settings.push(...Object.keys(properties));
+    } else {
+      malformed("configuration", "'contributes.configuration' contains an entry without a 'properties' object");
+    }
+  }
+
+  return contributions;
+}
+
+/**
+ * Lints the extension manifest (`package.json`) against the extension's code.
+ *
+ * The following mismatches are reported, with the location in `package.json`
+ * or in the source file that registers the id:
+ * - contributed commands that are never registered, and registered commands
+ *   that are not contributed
+ * - `onCommand:`/`onView:` activation events for unknown commands and views
+ * - contributed views without a tree view or view provider, and views
+ *   registered without being contributed
+ * - settings of the extension's own namespaces read with
+ *   `workspace.getConfiguration` that are not contributed
+ * - a missing `browser` entry, and web extensions that do not declare
+ *   `capabilities.untrustedWorkspaces`/`capabilities.virtualWorkspaces`
+ * - contribution sections and activation events that are not shaped the way
+ *   VS Code expects, e.g. a `contributes.commands` that is not an array;
+ *   they are otherwise skipped
+ *
+ * Only string literal ids are checked.
+ *
+ * @param projectDir The absolute path to the extension project root
+ * @param options Linter options
+ * @returns The issues found. If the array is empty, the manifest matches the
+ *          code.
+ * @throws {Error} If `package.json` cannot be read or the module graph of the
+ *                 entry point cannot be resolved
+ *
+ * @example Checking command ids before publishing
+ * ```ts
+ * import { analyzeManifest, formatCompatIssue } from "@vsce/bundler";
+ *
+ * const issues = await analyzeManifest("/path/to/extension");
+ * for (const issue of issues) console.error(formatCompatIssue(issue));
+ * ```
+ */
+export async function analyzeManifest(
+  projectDir: string,
+  options: ManifestLintOptions = {},
+): Promise<CompatIssue[]> {
+  const { entryPoint = "extension.ts" } = options;
+  const manifest = await readManifest(projectDir);
+  const manifestPath = join(projectDir, "package.json");
+  const text = await Deno.readTextFile(manifestPath);
+  const registrations = await collectRegistrations(
+    join(projectDir, entryPoint),
+    projectDir,
+  );
+  const issues: CompatIssue[] = [];
+  const atManifest = (pattern: RegExp) => locate(text, pattern);
+
+  // Malformed sections; each problem is reported once
+  const malformedSections = new Set<string>();
+  const contributions = readContributions(manifest, (key, message) => {
+    if (malformedSections.has(message)) return;
+    malformedSections.add(message);
+    issues.push(manifestIssue(
+      "manifest-contribution-malformed",
+      manifestPath,
+      atManifest(new RegExp(`${jsonPattern(key).source}\\s*:`)),
+      message,
+      "Fix the section to match the VS Code extension manifest schema.",
+    ));
+  });
+
+  // Commands
+  const declaredCommands = new Set(contributions.commands);
+  const registeredCommands = new Set(
+    registrations.commands.map(({ at }) => at.value),
+  );
+  for (const command of declaredCommands) {
+    if (registeredCommands.has(command)) continue;
+    issues.push(manifestIssue(
+      "manifest-command-unregistered",
+      manifestPath,
+      atManifest(jsonPattern(command, "command")),
+      `contributes command '${command}' that is never registered`,
+      "Register it with vscode.commands.registerCommand or fix the id.",
+    ));
+  }
+  const reportedCommands = new Set<string>();
+  for (const { file, at } of registrations.commands) {
+    if (declaredCommands.has(at.value) || reportedCommands.has(at.value)) continue;
+    reportedCommands.add(at.value);
+    issues.push(manifestIssue(
+      "manifest-command-undeclared",
+      file,
+      at,
+      `registers command '${at.value}' that package.json does not contribute`,
+      "Add it to contributes.commands to show it in the Command Palette.",
+    ));
+  }
+
+  // Views
+  const declaredViews = new Set(contributions.views);
+  const registeredViews = new Set(registrations.views.map(({ at }) => at.value));
+  for (const view of declaredViews) {
+    if (registeredViews.has(view)) continue;
+    issues.push(manifestIssue(
+      "manifest-view-unregistered",
+      manifestPath,
+      atManifest(jsonPattern(view, "id")),
+      `contributes view '${view}' that is never registered`,
+      "Create it with vscode.window.createTreeView or register a view provider.",
+    ));
+  }
+  for (const { file, at } of registrations.views) {
+    if (declaredViews.has(at.value)) continue;
+    issues.push(manifestIssue(
+      "manifest-view-undeclared",
+      file,
+      at,
+      `registers view '${at.value}' that package.json does not contribute`,
+      "Add it to contributes.views.",
+    ));
+  }
+
+  // Activation events
+  for (const event of contributions.activationEvents) {
+    const [kind, id] = event.split(/:(.*)/s);
+    const known = kind === "onCommand"
+      ? registeredCommands.has(id) || declaredCommands.has(id)
+      : kind === "onView"
+      ? declaredViews.has(id)
+      : true;
+    if (known) continue;
+    issues.push(manifestIssue(
+      "manifest-activation-event-unknown",
+      manifestPath,
+      atManifest(jsonPattern(event)),
+      `activates on '${event}', but ${
+        kind === "onCommand" ? "the command" : "the view"
+      } '${id}' does not exist`,
+    ));
+  }
+
+  // Configuration; settings of VS Code and other extensions are not checked
+  const settings = contributions.settings;
+  const namespaces = new Set(settings.map((id) => id.split(".")[0]));
+  if (manifest.name) namespaces.add(manifest.name);
+  for (const { file, at } of registrations.configurationReads) {
+    const setting = at.key === undefined
+      ? at.section!
+      : at.section
+      ? `${at.section}.${at.key}`
+      : at.key;
+    if (!namespaces.has(setting.split(".")[0])) continue;
+    const declared = at.key === undefined
+      ? settings.some((id) => id === setting || id.startsWith(`${setting}.`))
+      : settings.includes(setting);
+    if (declared) continue;
+    issues.push(manifestIssue(
+      "manifest-configuration-undeclared",
+      file,
+      at,
+      `reads setting '${setting}' that package.json does not contribute`,
+      "Add it to contributes.configuration.properties.",
+    ));
+  }
+
+  // Web extension host
+  if (manifest.browser === undefined) {
+    issues.push(manifestIssue(
+      "manifest-browser-missing",
+      manifestPath,
+      atManifest(/"main"/),
+      "declares no 'browser' entry, so the extension is unavailable in VS Code for the Web",
+      "Build a webworker bundle and point 'browser' at it.",
+    ));
+  } else {
+    for (const capability of ["untrustedWorkspaces", "virtualWorkspaces"] as const) {
+      if (manifest.capabilities?.[capability] !== undefined) continue;
+      issues.push(manifestIssue(
+        "manifest-capabilities-missing",
+        manifestPath,
+        atManifest(/"browser"/),
+        `web extension does not declare capabilities.${capability}`,
+        `Declare "${capability}": { "supported": … } to state how the extension behaves.`,
+      ));
+    }
+  }
+
+  return issues;
+}
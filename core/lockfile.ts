@@ -0,0 +1,164 @@
+/**
+ * Lockfile integrity checks for the @vsce/bundler package.
+ *
+ * `deno.lock` records the SHA-256 hash of every remote module and, for JSR
+ * packages, of each version's metadata, whose manifest in turn lists the hash
+ * of every file of the version. Remote modules loaded by `@deno/emit` are
+ * checked against these hashes the same way Deno checks them, so a module that
+ * changed on the server or in the cache fails the build instead of ending up
+ * in the bundle. (`deno info`, which resolves the graph for the esbuild
+ * backend, performs these checks itself.)
+ *
+ * @module
+ */
+
+import { sha256Hex } from "../hash/compute_hash.ts";
+
+/** A file of a JSR package version, e.g. `https://jsr.io/@std/path/1.0.8/mod.ts`. */
+const JSR_FILE_RE = /^https:\/\/jsr\.io\/(@[^/]+\/[^/]+)\/([^/]+)(\/.+)$/;
+
+/** Metadata of a JSR package version, e.g. `https://jsr.io/@std/path/1.0.8_meta.json`. */
+const JSR_META_RE = /^https:\/\/jsr\.io\/(@[^/]+\/[^/]+)\/([^/]+)_meta\.json$/;
+
+/** Loads the content of a remote module, e.g. from the module cache. */
+export type ContentLoader = (
+  specifier: string,
+) => Promise<string | Uint8Array | undefined>;
+
+/** The parts of `deno.lock` (versions 3 to 5) checked here. */
+interface LockfileContents {
+  remote?: Record<string, string>;
+  jsr?: Record<string, { integrity: string }>;
+  packages?: { jsr?: Record<string, { integrity: string }> };
+}
+
+/**
+ * A `deno.lock` file to check remote modules against.
+ * @internal
+ */
+export class Lockfile {
+  /** Absolute path of the lockfile. */
+  readonly path: string;
+  /** Whether modules missing from the lockfile are rejected. */
+  readonly frozen: boolean;
+  readonly #remote: Record<string, string>;
+  readonly #jsr: Record<string, { integrity: string }>;
+  /** File checksums per JSR package version, from its verified metadata. */
+  readonly #manifests = new Map<string, Promise<Record<string, string>>>();
+
+  private constructor(path: string, frozen: boolean, contents: LockfileContents) {
+    this.path = path;
+    this.frozen = frozen;
+    this.#remote = contents.remote ?? {};
+    this.#jsr = contents.jsr ?? contents.packages?.jsr ?? {};
+  }
+
+  /**
+   * Read the lockfile at `path`.
+   *
+   * @throws {Error} If the file cannot be read or parsed
+   */
+  static async read(path: string, frozen: boolean): Promise<Lockfile> {
+    try {
+      return new Lockfile(path, frozen, JSON.parse(await Deno.readTextFile(path)));
+    } catch (err) {
+      throw new Error(
+        `Failed to read lockfile ${path}: ${
+          err instanceof Error ? err.message : String(err)
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Check the content of the remote module `specifier` against the lockfile.
+   * Modules of JSR packages are checked against the manifest of their
+   * version's metadata, which `load` provides.
+   *
+   * @throws {Error} If the content does not match the recorded hash, or the
+   *                 module is not in a frozen lockfile
+   */
+  async verify(
+    specifier: string,
+    content: string | Uint8Array,
+    load: ContentLoader,
+  ): Promise<void> {
+    const actual = await sha256Hex(toBytes(content));
+
+    const meta = specifier.match(JSR_META_RE);
+    if (meta) {
+      const expected = this.#jsr[`${meta[1]}@${meta[2]}`]?.integrity;
+      if (expected === undefined) return this.#unlocked(specifier);
+      if (actual !== expected) this.#mismatch(specifier, actual, expected);
+      return;
+    }
+
+    const file = specifier.match(JSR_FILE_RE);
+    if (file && !(specifier in this.#remote)) {
+      const version = `${file[1]}@${file[2]}`;
+      if (!(version in this.#jsr)) return this.#unlocked(specifier);
+      const checksums = await this.#manifest(file[1], file[2], load);
+      const expected = checksums[file[3]]?.replace(/^sha256-/, "");
+      if (expected === undefined) {
+        throw new Error(
+          `Integrity check failed for remote specifier ${specifier}: the file is not part of ${version}`,
+        );
+      }
+      if (actual !== expected) this.#mismatch(specifier, actual, expected);
+      return;
+    }
+
+    const expected = this.#remote[specifier];
+    if (expected === undefined) return this.#unlocked(specifier);
+    if (actual !== expected) this.#mismatch(specifier, actual, expected);
+  }
+
+  /** The verified file checksums of a JSR package version. */
+  #manifest(
+    name: string,
+    version: string,
+    load: ContentLoader,
+  ): Promise<Record<string, string>> {
+    const key = `${name}@${version}`;
+    let manifest = this.#manifests.get(key);
+    if (!manifest) {
+      manifest = (async () => {
+        const url = `https://jsr.io/${name}/${version}_meta.json`;
+        const content = await load(url);
+        if (content === undefined) {
+          throw new Error(`Cannot check ${key} against the lockfile: ${url} could not be loaded`);
+        }
+        await this.verify(url, content, load);
+        const { manifest = {} } = JSON.parse(new TextDecoder().decode(toBytes(content))) as {
+          manifest?: Record<string, { checksum: string }>;
+        };
+        return Object.fromEntries(
+          Object.entries(manifest).map(([path, { checksum }]) => [path, checksum]),
+        );
+      })();
+      this.#manifests.set(key, manifest);
+    }
+    return manifest;
+  }
+
+  /** Reject a module that is not in the lockfile, if it is frozen. */
+  #unlocked(specifier: string): void {
+    if (this.frozen) {
+      throw new Error(
+        `The lockfile is out of date: ${specifier} is not in ${this.path}. Run \`deno install\` to update it.`,
+      );
+    }
+  }
+
+  /** Reject a module whose hash differs from the recorded one. */
+  #mismatch(specifier: string, actual: string, expected: string): never {
+    throw new Error(
+      `Integrity check failed for remote specifier ${specifier}: expected ${expected} from ${this.path}, got ${actual}`,
+    );
+  }
+}
+
+/** `content` as bytes. */
+function toBytes(content: string | Uint8Array): Uint8Array {
+  return typeof content === "string" ? new TextEncoder().encode(content) : content;
+}
@@ -0,0 +1,211 @@
+/**
+ * VS Code extension manifest (`package.json`) support for the @vsce/bundler
+ * package.
+ *
+ * In manifest mode the build outputs are taken from the manifest itself –
+ * `main` for the desktop host, `browser` for the web host – and the language
+ * level from the oldest VS Code release allowed by `engines.vscode`. Builds
+ * with their own outputs can check that the manifest points at them, since a
+ * wrong `main` path only surfaces as an activation failure at runtime.
+ *
+ * @module
+ */
+
+import { extname, join, relative, resolve } from "@std/path";
+
+import type { BundleTarget } from "../types.ts";
+
+/**
+ * The parts of a VS Code extension manifest used by the bundler.
+ * @internal
+ */
+export interface ExtensionManifest {
+  /** Extension name, also the usual prefix of its setting ids. */
+  name?: string;
+  /** Entry of the desktop (Node) extension host. */
+  main?: string;
+  /** Entry of the web extension host. */
+  browser?: string;
+  /** Supported host versions, e.g. `{ vscode: "^1.80.0" }`. */
+  engines?: { vscode?: string };
+  /** Events that activate the extension, e.g. `onCommand:ext.hello`. */
+  activationEvents?: string[];
+  /** Declared support for restricted and virtual workspaces. */
+  capabilities?: {
+    untrustedWorkspaces?: unknown;
+    virtualWorkspaces?: unknown;
+  };
+  /** Contribution points. */
+  contributes?: {
+    commands?: { command: string }[];
+    views?: Record<string, { id: string }[]>;
+    configuration?: ManifestConfiguration | ManifestConfiguration[];
+  };
+}
+
+/**
+ * A `contributes.configuration` entry.
+ * @internal
+ */
+export interface ManifestConfiguration {
+  /** Settings, keyed by full setting id. */
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * A bundle requested by the manifest.
+ * @internal
+ */
+export interface ManifestOutput {
+  /** Extension host that loads the bundle. */
+  target: BundleTarget;
+  /** Manifest field the bundle is declared in. */
+  field: "main" | "browser";
+  /** Absolute path of the bundle. */
+  path: string;
+}
+
+/** Manifest field per target. */
+const TARGET_FIELDS = { main: "node", browser: "webworker" } as const;
+
+/**
+ * Extension host runtimes by minimum VS Code version, newest first. Desktop
+ * bundles target the Node version of the bundled Electron, web bundles the
+ * matching ECMAScript edition.
+ */
+const HOST_RUNTIMES: {
+  since: [number, number];
+  node: string;
+  webworker: string;
+}[] = [
+  { since: [1, 90], node: "node20", webworker: "es2022" },
+  { since: [1, 82], node: "node18", webworker: "es2022" },
+  { since: [1, 66], node: "node16", webworker: "es2021" },
+  { since: [1, 56], node: "node14", webworker: "es2020" },
+  { since: [0, 0], node: "node12", webworker: "es2019" },
+];
+
+/**
+ * Read the extension manifest in `projectDir`.
+ *
+ * @throws {Error} If `package.json` is missing or not valid JSON
+ * @internal
+ */
+export async function readManifest(
+  projectDir: string,
+): Promise<ExtensionManifest> {
+  const path = join(projectDir, "package.json");
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await Deno.readTextFile(path));
+  } catch (err) {
+    throw new Error(
+      `Failed to read extension manifest ${path}: ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+    );
+  }
+  if (typeof manifest !== "object" || manifest === null) {
+    throw new Error(`Invalid extension manifest ${path}: expected an object`);
+  }
+  return manifest as ExtensionManifest;
+}
+
+/**
+ * Resolve a `main`/`browser` entry like the extension host does: relative to
+ * the project, with `.js` appended when the path has no extension.
+ */
+function resolveEntry(projectDir: string, entry: string): string {
+  const path = resolve(projectDir, entry);
+  return extname(path) ? path : `${path}.js`;
+}
+
+/**
+ * The bundles requested by the manifest's `main` and `browser` fields.
+ *
+ * @throws {Error} If the manifest declares neither field or one of them does
+ *                 not point at a JavaScript file
+ * @internal
+ */
+export function manifestOutputs(
+  projectDir: string,
+  manifest: ExtensionManifest,
+): ManifestOutput[] {
+  const outputs: ManifestOutput[] = [];
+  for (const field of ["main", "browser"] as const) {
+    const entry = manifest[field];
+    if (entry === undefined) continue;
+    if (typeof entry !== "string") {
+      throw new Error(`package.json "${field}" must be a string`);
+    }
+    const path = resolveEntry(projectDir, entry);
+    if (![".js", ".cjs"].includes(extname(path))) {
+      throw new Error(
+        `package.json "${field}" must point at the JavaScript bundle, not ${entry}`,
+      );
+    }
+    outputs.push({ target: TARGET_FIELDS[field], field, path });
+  }
+  if (outputs.length === 0) {
+    throw new Error(
+      `package.json declares neither "main" nor "browser"; nothing to build`,
+    );
+  }
+  return outputs;
+}
+
+/**
+ * Infer the esbuild language target per extension host from the oldest
+ * VS Code version allowed by `engines.vscode`, e.g. `node16` and `es2021`
+ * for `^1.70.0`.
+ *
+ * @returns The targets, or `undefined` if the range cannot be parsed
+ * @internal
+ */
+export function languageTargets(
+  engine: string | undefined,
+): Record<BundleTarget, string> | undefined {
+  const match = engine?.match(/(\d+)\.(\d+)/);
+  if (!match) return undefined;
+  const [major, minor] = [Number(match[1]), Number(match[2])];
+  const runtime = HOST_RUNTIMES.find(({ since }) =>
+    major > since[0] || (major === since[0] && minor >= since[1])
+  )!;
+  return { node: runtime.node, webworker: runtime.webworker };
+}
+
+/**
+ * Check that the manifest's `main` and `browser` fields point at the bundles
+ * of a build: `main` at the `node` bundle and `browser` at the `webworker`
+ * bundle, or either at the bundle of a build without targets. A field whose
+ * target the build does not produce is not checked.
+ *
+ * @param bundles The absolute paths of the build's bundles
+ * @returns One message per mismatch
+ * @internal
+ */
+export function verifyManifestOutputs(
+  projectDir: string,
+  manifest: ExtensionManifest,
+  bundles: readonly { target?: BundleTarget; path: string }[],
+): string[] {
+  const problems: string[] = [];
+  for (const field of ["main", "browser"] as const) {
+    const entry = manifest[field];
+    if (entry === undefined) continue;
+    if (typeof entry !== "string") {
+      problems.push(`package.json "${field}" must be a string`);
+      continue;
+    }
+    const bundle = bundles.find(({ target }) =>
+      target === undefined || target === TARGET_FIELDS[field]
+    );
+    if (!bundle || resolveEntry(projectDir, entry) === bundle.path) continue;
+    problems.push(
+      `package.json "${field}" points at ${entry}, but the ${
+        bundle.target ? `${bundle.target} ` : ""
+      }bundle is written to ${relative(projectDir, bundle.path)}`,
+    );
+  }
+  return problems;
+}
@@ -0,0 +1,202 @@
+/**
+ * Safe writes into the output directory of the @vsce/bundler package.
+ *
+ * Builds of the same output directory – parallel CI jobs, an editor-triggered
+ * build overlapping a manual one – are serialized by a lock file, and every
+ * output is written to a temporary file that is then renamed over the target,
+ * so readers never see a half-written bundle. Together with the cache record
+ * being written last, an interrupted build can never leave a cache record
+ * describing outputs that are not on disk.
+ *
+ * @module
+ */
+
+import { basename, dirname, join } from "@std/path";
+
+import type { LockPolicy } from "../types.ts";
+
+/** Name of the lock file inside the output directory. */
+export const LOCK_FILE = ".build.lock";
+
+/** Suffix of the temporary files written before their rename. */
+export const TEMP_SUFFIX = ".build-tmp";
+
+/** Interval in which a held lock is refreshed. */
+const HEARTBEAT_MS = 2_000;
+
+/** Age after which a lock that is no longer refreshed is considered abandoned. */
+const STALE_MS = 10_000;
+
+/** Delay between attempts to take a held lock. */
+const RETRY_MS = 100;
+
+/**
+ * Write `data` to `path` atomically: into a temporary file next to it, which
+ * then replaces `path` in a single rename.
+ *
+ * @internal
+ */
+export async function writeFileAtomic(
+  path: string,
+  data: string | Uint8Array,
+): Promise<void> {
+  const temp = join(
+    dirname(path),
+    `.${basename(path)}.${crypto.randomUUID().slice(0, 8)}${TEMP_SUFFIX}`,
+  );
+  try {
+    if (typeof data === "string") await Deno.writeTextFile(temp, data);
+    else await Deno.writeFile(temp, data);
+    await Deno.rename(temp, path);
+  } catch (err) {
+    await Deno.remove(temp).catch(() => {});
+    throw err;
+  }
+}
+
+/**
+ * Options of {@link OutDirLock.acquire}.
+ * @internal
+ */
+export interface LockOptions {
+  /** Whether to wait for or fail on a lock held by another build. */
+  policy: Exclude<LockPolicy, "off">;
+  /** How long to wait for the lock in milliseconds. */
+  timeoutMs: number;
+  /** Stops waiting when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Exclusive lock of an output directory, held for the duration of a build.
+ *
+ * The lock is a file created exclusively in the directory, holding a token
+ * unique to its owner. While held, its modification time is refreshed, so a
+ * lock left behind by a crashed build is recognized by its age and taken
+ * over.
+ *
+ * @internal
+ */
+export class OutDirLock {
+  readonly #path: string;
+  readonly #token: string;
+  readonly #timer: ReturnType<typeof setInterval>;
+  #refresh: Promise<void> = Promise.resolve();
+
+  private constructor(path: string, token: string) {
+    this.#path = path;
+    this.#token = token;
+    this.#timer = setInterval(() => {
+      const now = new Date();
+      this.#refresh = Deno.utime(path, now, now).catch(() => {});
+    }, HEARTBEAT_MS);
+  }
+
+  /**
+   * Take the lock of `outDirectory`.
+   *
+   * @throws {Error} If another build holds the lock and `policy` is "fail",
+   *                 or it is not released within `timeoutMs`
+   * @throws If `signal` is aborted while waiting, its reason
+   */
+  static async acquire(
+    outDirectory: string,
+    options: LockOptions,
+  ): Promise<OutDirLock> {
+    const { policy, timeoutMs, signal } = options;
+    const path = join(outDirectory, LOCK_FILE);
+    const token = crypto.randomUUID();
+    const deadline = Date.now() + timeoutMs;
+    while (true) {
+      signal?.throwIfAborted();
+      try {
+        await Deno.writeTextFile(
+          path,
+          JSON.stringify({ pid: Deno.pid, token, time: new Date().toISOString() }),
+          { createNew: true },
+        );
+        return new OutDirLock(path, token);
+      } catch (err) {
+        if (!(err instanceof Deno.errors.AlreadyExists)) throw err;
+      }
+
+      const held = await readLock(path);
+      if (held && isStale(held)) {
+        // Left behind by a crashed build. Of several builds moving it aside
+        // only one succeeds; the moved file is checked again, since another
+        // build may have replaced the lock, or its owner refreshed it, in
+        // the meantime.
+        const aside = `${path}.${token.slice(0, 8)}${TEMP_SUFFIX}`;
+        if (await Deno.rename(path, aside).then(() => true, () => false)) {
+          const moved = await readLock(aside);
+          if (!moved || moved.token !== held.token || !isStale(moved)) {
+            // Put the live lock back, unless yet another build took over
+            await Deno.link(aside, path).catch(() => {});
+          }
+          await Deno.remove(aside).catch(() => {});
+        }
+        continue;
+      }
+      if (policy === "fail" || Date.now() >= deadline) {
+        throw new Error(
+          `Output directory ${outDirectory} is locked by another build${
+            policy === "fail" ? "" : ` (waited ${timeoutMs} ms)`
+          }; remove ${path} if no build is running`,
+        );
+      }
+      await sleep(RETRY_MS, signal);
+    }
+  }
+
+  /** Release the lock, unless another build has taken it over. */
+  async release(): Promise<void> {
+    clearInterval(this.#timer);
+    await this.#refresh;
+    if ((await readLock(this.#path))?.token === this.#token) {
+      await Deno.remove(this.#path).catch(() => {});
+    }
+  }
+}
+
+/** A lock file as found on disk. */
+interface LockState {
+  /** Token of the owner; unset for unreadable or foreign lock files. */
+  token?: string;
+  /** Last refresh by the owner. */
+  modified: Date;
+}
+
+/** Read the lock file at `path`, or `undefined` if there is none. */
+async function readLock(path: string): Promise<LockState | undefined> {
+  try {
+    const { mtime } = await Deno.stat(path);
+    let token: string | undefined;
+    try {
+      const content = JSON.parse(await Deno.readTextFile(path));
+      if (typeof content?.token === "string") token = content.token;
+    } catch {
+      // Being written, or not written by this bundler
+    }
+    return { token, modified: mtime ?? new Date() };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Whether the owner of `lock` stopped refreshing it. */
+function isStale(lock: LockState): boolean {
+  return Date.now() - lock.modified.getTime() > STALE_MS;
+}
+
+/** Wait `ms` milliseconds, or until `signal` is aborted. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
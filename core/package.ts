@@ -0,0 +1,387 @@
+/**
+ * VSIX packaging for the @vsce/bundler package.
+ *
+ * Writes the `.vsix` file that the Marketplace and `code --install-extension`
+ * accept – an Open Packaging Conventions ZIP with an `extension.vsixmanifest`,
+ * a `[Content_Types].xml` and the project files under `extension/` – without
+ * the Node-based `@vscode/vsce` toolchain. Files are selected like `vsce`
+ * does, honoring the project's `.vscodeignore`.
+ *
+ * @module
+ */
+
+import { dirname, extname, globToRegExp, isAbsolute, join, relative, SEPARATOR } from "@std/path";
+
+import type { PackagedFile, PackageOptions, PackageResult } from "../types.ts";
+import { REPORT_FILES } from "./analyze.ts";
+import { SIZES_FILE } from "./budget.ts";
+import { CACHE_FILE } from "./cache.ts";
+import { readManifest } from "./manifest.ts";
+import { LOCK_FILE, TEMP_SUFFIX } from "./output.ts";
+import { createZip, type ZipEntry } from "./zip.ts";
+
+/** Name of the file listing excluded files, relative to the project root. */
+const IGNORE_FILE = ".vscodeignore";
+
+/** Files never packaged, in `.vscodeignore` syntax; `!` rules can re-include them. */
+const DEFAULT_IGNORE = [
+  "**/.git/**",
+  "**/.DS_Store",
+  "**/*.vsix",
+  ".vscodeignore",
+  ".vscode-test/**",
+  "node_modules/**",
+  "vendor/**",
+  `**/${CACHE_FILE}`,
+  `**/${LOCK_FILE}`,
+  `**/*${TEMP_SUFFIX}`,
+  `**/${SIZES_FILE}`,
+  `**/${REPORT_FILES.json}`,
+  `**/${REPORT_FILES.html}`,
+];
+
+/** Manifest fields every package needs. */
+const REQUIRED_FIELDS = ["name", "version", "publisher"] as const;
+
+/** Content types by file extension; anything else is a binary stream. */
+const CONTENT_TYPES: Record<string, string> = {
+  ".js": "application/javascript",
+  ".cjs": "application/javascript",
+  ".mjs": "application/javascript",
+  ".json": "application/json",
+  ".map": "application/json",
+  ".md": "text/markdown",
+  ".txt": "text/plain",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".vsixmanifest": "text/xml",
+};
+
+/** A parsed `.vscodeignore` rule. */
+interface IgnoreRule {
+  /** `!` rule that re-includes matching files. */
+  negated: boolean;
+  pattern: RegExp;
+  /** Literal start of the glob, shared by every path the rule matches. */
+  prefix: string;
+}
+
+/** The manifest fields used for the `.vsixmanifest`. */
+interface PackageManifest {
+  name: string;
+  version: string;
+  publisher: string;
+  displayName?: string;
+  description?: string;
+  keywords?: string[];
+  categories?: string[];
+  preview?: boolean;
+  icon?: string;
+  main?: string;
+  browser?: string;
+  extensionKind?: string[];
+  extensionDependencies?: string[];
+  extensionPack?: string[];
+  engines: { vscode: string };
+  repository?: string | { url?: string };
+}
+
+/**
+ * Parse `.vscodeignore` lines: globs relative to the project root, `#`
+ * comments, `!` negations and trailing `/` for directories.
+ */
+function parseIgnoreRules(lines: readonly string[]): IgnoreRule[] {
+  return lines
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => {
+      const negated = line.startsWith("!");
+      let glob = (negated ? line.slice(1) : line).replace(/^\//, "");
+      if (glob.endsWith("/")) glob += "**";
+      const wildcard = glob.search(/[*?[\]{}()!@+\\]/);
+      return {
+        negated,
+        pattern: globToRegExp(glob, { extended: true, globstar: true }),
+        prefix: wildcard < 0 ? glob : glob.slice(0, wildcard),
+      };
+    });
+}
+
+/**
+ * Whether `path` (relative, `/`-separated) is excluded. A rule also applies
+ * to the contents of a directory it matches; the last matching rule wins.
+ */
+function isIgnored(path: string, rules: readonly IgnoreRule[]): boolean {
+  const segments = path.split("/");
+  const candidates = segments.map((_, i) => segments.slice(0, i + 1).join("/"));
+  let ignored = false;
+  for (const rule of rules) {
+    if (candidates.some((candidate) => rule.pattern.test(candidate))) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Whether the directory `path` (relative, `/`-separated) is excluded with
+ * everything in it: it is ignored, and no `!` rule can re-include a file in
+ * it.
+ */
+function isIgnoredDir(path: string, rules: readonly IgnoreRule[]): boolean {
+  const dir = `${path}/`;
+  return isIgnored(dir, rules) && !rules.some((rule) =>
+    rule.negated && (dir.startsWith(rule.prefix) || rule.prefix.startsWith(dir))
+  );
+}
+
+/**
+ * List the project files, relative and `/`-separated, skipping `.git` and
+ * directories excluded by `rules` without reading them.
+ */
+async function listFiles(
+  rules: readonly IgnoreRule[],
+  root: string,
+  dir = root,
+): Promise<string[]> {
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    const path = join(dir, entry.name);
+    const relativePath = relative(root, path).split(SEPARATOR).join("/");
+    if (entry.isDirectory) {
+      if (entry.name === ".git" || isIgnoredDir(relativePath, rules)) continue;
+      files.push(...await listFiles(rules, root, path));
+    } else if (entry.isFile) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+/** Escape text for XML content and attribute values. */
+function xml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
+
+/**
+ * Check the manifest fields required for packaging.
+ *
+ * @throws {Error} If a required field is missing
+ */
+function checkManifest(manifest: Record<string, unknown>): PackageManifest {
+  for (const field of REQUIRED_FIELDS) {
+    if (typeof manifest[field] !== "string" || !manifest[field]) {
+      throw new Error(`package.json is missing "${field}", which is required for packaging`);
+    }
+  }
+  const engines = manifest.engines as { vscode?: unknown } | undefined;
+  if (typeof engines?.vscode !== "string") {
+    throw new Error(`package.json is missing "engines.vscode", which is required for packaging`);
+  }
+  return manifest as unknown as PackageManifest;
+}
+
+/** Where the host may run the extension, derived like `vsce` does. */
+function extensionKind(manifest: PackageManifest): string {
+  if (manifest.extensionKind) return manifest.extensionKind.join(",");
+  if (manifest.browser && !manifest.main) return "web";
+  return manifest.browser ? "workspace,web" : "workspace";
+}
+
+/**
+ * Render the `extension.vsixmanifest`.
+ *
+ * @param assets Archive paths per asset type
+ */
+function vsixManifest(
+  manifest: PackageManifest,
+  assets: Record<string, string>,
+): string {
+  const repository = typeof manifest.repository === "string"
+    ? manifest.repository
+    : manifest.repository?.url;
+  const properties: [string, string][] = [
+    ["Microsoft.VisualStudio.Code.Engine", manifest.engines.vscode],
+    ["Microsoft.VisualStudio.Code.ExtensionDependencies", (manifest.extensionDependencies ?? []).join(",")],
+    ["Microsoft.VisualStudio.Code.ExtensionPack", (manifest.extensionPack ?? []).join(",")],
+    ["Microsoft.VisualStudio.Code.ExtensionKind", extensionKind(manifest)],
+    ...(repository ? [["Microsoft.VisualStudio.Services.Links.Source", repository] as [string, string]] : []),
+    ["Microsoft.VisualStudio.Services.Content.Pricing", "Free"],
+  ];
+  const license = assets["Microsoft.VisualStudio.Services.Content.License"];
+  const icon = assets["Microsoft.VisualStudio.Services.Icons.Default"];
+
+  return [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<PackageManifest Version="2.0.0" xmlns="http://schemas.microsoft.com/developer/vsx-schema/2011" xmlns:d="http://schemas.microsoft.com/developer/vsx-schema-design/2011">`,
+    `  <Metadata>`,
+    `    <Identity Language="en-US" Id="${xml(manifest.name)}" Version="${xml(manifest.version)}" Publisher="${xml(manifest.publisher)}" />`,
+    `    <DisplayName>${xml(manifest.displayName ?? manifest.name)}</DisplayName>`,
+    `    <Description xml:space="preserve">${xml(manifest.description ?? "")}</Description>`,
+    `    <Tags>${xml((manifest.keywords ?? []).join(","))}</Tags>`,
+    `    <Categories>${xml((manifest.categories ?? []).join(","))}</Categories>`,
+    `    <GalleryFlags>Public${manifest.preview ? " Preview" : ""}</GalleryFlags>`,
+    `    <Properties>`,
+    ...properties.map(([id, value]) => `      <Property Id="${id}" Value="${xml(value)}" />`),
+    `    </Properties>`,
+    ...(license ? [`    <License>${xml(license)}</License>`] : []),
+    ...(icon ? [`    <Icon>${xml(icon)}</Icon>`] : []),
+    `  </Metadata>`,
+    `  <Installation>`,
+    `    <InstallationTarget Id="Microsoft.VisualStudio.Code" />`,
+    `  </Installation>`,
+    `  <Dependencies />`,
+    `  <Assets>`,
+    ...Object.entries(assets).map(([type, path]) =>
+      `    <Asset Type="${type}" Path="${xml(path)}" Addressable="true" />`
+    ),
+    `  </Assets>`,
+    `</PackageManifest>`,
+    ``,
+  ].join("\n");
+}
+
+/** Render `[Content_Types].xml` for the given archive paths. */
+function contentTypes(paths: readonly string[]): string {
+  const extensions = [...new Set(paths.map((path) => extname(path).toLowerCase()))]
+    .filter(Boolean)
+    .sort();
+  return [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`,
+    ...extensions.map((ext) =>
+      `  <Default Extension="${xml(ext)}" ContentType="${CONTENT_TYPES[ext] ?? "application/octet-stream"}" />`
+    ),
+    `</Types>`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * Package a built VS Code extension as a `.vsix` file.
+ *
+ * All files of the project are included under `extension/` unless they are
+ * excluded by `.vscodeignore` (same syntax as `vsce`: globs relative to the
+ * project root, `!` to re-include) or by the defaults (`.git`,
+ * `node_modules`, `.vsix` files, the build cache and size reports).
+ * README, CHANGELOG, LICENSE and the manifest's `icon` are registered as
+ * Marketplace assets.
+ *
+ * @param options Packaging options
+ * @returns The package path, the included files and their total size
+ * @throws {Error} If the manifest lacks a required field, the icon is missing,
+ *                 or a bundle of `options.bundle` would not be packaged
+ *
+ * @example Packaging after a build
+ * ```ts
+ * import { bundleExtension, packageExtension } from "@vsce/bundler";
+ *
+ * const bundle = await bundleExtension({ projectDir: "/path/to/extension" });
+ * const { vsixPath } = await packageExtension({
+ *   projectDir: "/path/to/extension",
+ *   bundle,
+ * });
+ * ```
+ */
+export async function packageExtension(
+  options: PackageOptions,
+): Promise<PackageResult> {
+  const { projectDir, bundle } = options;
+  const manifest = checkManifest(
+    options.manifest ?? { ...await readManifest(projectDir) },
+  );
+
+  let ignoreLines: string[] = [];
+  try {
+    ignoreLines = (await Deno.readTextFile(join(projectDir, IGNORE_FILE))).split(/\r?\n/);
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  const rules = parseIgnoreRules([...DEFAULT_IGNORE, ...ignoreLines]);
+  const paths = (await listFiles(rules, projectDir))
+    .filter((path) => !isIgnored(path, rules))
+    .sort();
+
+  if (!paths.includes("package.json")) {
+    throw new Error(`package.json is excluded from the package by ${IGNORE_FILE}`);
+  }
+  // The bundles are the point of the package
+  const bundlePaths = [
+    ...(bundle ? [bundle.bundlePath] : []),
+    ...Object.values(bundle?.targets ?? {}).map((target) => target.bundlePath),
+  ];
+  for (const bundlePath of new Set(bundlePaths)) {
+    const path = relative(projectDir, bundlePath).split(SEPARATOR).join("/");
+    if (path.startsWith("..") || isAbsolute(path)) {
+      throw new Error(`The bundle ${bundlePath} is outside of ${projectDir} and cannot be packaged`);
+    }
+    if (!paths.includes(path)) {
+      throw new Error(`The bundle ${path} is excluded from the package by ${IGNORE_FILE}`);
+    }
+  }
+
+  const icon = manifest.icon?.replace(/^\.?\//, "");
+  if (icon && !paths.includes(icon)) {
+    throw new Error(`The icon ${manifest.icon} declared in package.json is missing or excluded from the package`);
+  }
+
+  // Archive path per project file; extension-less licenses get `.txt` like vsce
+  const archivePath = (path: string) =>
+    `extension/${/^license$/i.test(path) ? `${path}.txt` : path}`;
+  const find = (pattern: RegExp) => paths.find((path) => pattern.test(path));
+  const assets: Record<string, string> = {
+    "Microsoft.VisualStudio.Code.Manifest": "extension/package.json",
+  };
+  const assetFiles: [string, string | undefined][] = [
+    ["Microsoft.VisualStudio.Services.Content.Details", find(/^readme(\.md)?$/i)],
+    ["Microsoft.VisualStudio.Services.Content.Changelog", find(/^changelog(\.md)?$/i)],
+    ["Microsoft.VisualStudio.Services.Content.License", find(/^licen[sc]e(\.md|\.txt)?$/i)],
+    ["Microsoft.VisualStudio.Services.Icons.Default", icon],
+  ];
+  for (const [type, path] of assetFiles) {
+    if (path) assets[type] = archivePath(path);
+  }
+
+  const files: PackagedFile[] = [];
+  const entries: ZipEntry[] = [];
+  const encoder = new TextEncoder();
+  for (const path of paths) {
+    const data = path === "package.json" && options.manifest
+      ? encoder.encode(JSON.stringify(options.manifest, null, 2))
+      : await Deno.readFile(join(projectDir, path));
+    files.push({ path, size: data.length });
+    entries.push({ path: archivePath(path), data });
+  }
+
+  const archive = await createZip([
+    {
+      path: "extension.vsixmanifest",
+      data: encoder.encode(vsixManifest(manifest, assets)),
+    },
+    {
+      path: "[Content_Types].xml",
+      data: encoder.encode(
+        contentTypes(["extension.vsixmanifest", ...entries.map((entry) => entry.path)]),
+      ),
+    },
+    ...entries,
+  ]);
+
+  const outFile = options.outFile ?? `${manifest.name}-${manifest.version}.vsix`;
+  const vsixPath = isAbsolute(outFile) ? outFile : join(projectDir, outFile);
+  await Deno.mkdir(dirname(vsixPath), { recursive: true });
+  await Deno.writeFile(vsixPath, archive);
+
+  return {
+    vsixPath,
+    size: archive.length,
+    files,
+    unpackedSize: files.reduce((total, file) => total + file.size, 0),
+  };
+}
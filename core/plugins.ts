@@ -0,0 +1,171 @@
+/**
+ * Plugin support for the @vsce/bundler package.
+ *
+ * Runs the hooks of the configured {@link BundlePlugin}s at the phases of
+ * `bundleExtension` and provides their {@link PluginContext}: messages go to
+ * the build log and emitted assets into the output directory, tracked by the
+ * build cache. Errors thrown by a hook become a {@link PluginError} naming the
+ * plugin.
+ *
+ * @module
+ */
+
+import { dirname, isAbsolute, join, normalize, SEPARATOR } from "@std/path";
+import { ensureDir } from "@std/fs";
+
+import type {
+  BuildPhase,
+  BundleOptions,
+  BundlePlugin,
+  BundleResult,
+  PluginContext,
+  PluginOutput,
+  PluginTransformResult,
+} from "../types.ts";
+import { PluginError } from "./errors.ts";
+import { writeFileAtomic } from "./output.ts";
+
+/** Hooks that transform code. */
+type TransformHook = "transform" | "beforeMinify";
+
+/** Build phase each hook runs in. */
+const HOOK_PHASES: Record<Exclude<keyof BundlePlugin, "name" | "cacheKey">, BuildPhase> = {
+  resolveEntry: "resolve",
+  cacheHit: "cache",
+  beforeBundle: "bundle",
+  transform: "transform",
+  beforeMinify: "transform",
+  afterWrite: "write",
+};
+
+/**
+ * Runs plugin hooks for one build.
+ * @internal
+ */
+export class PluginHost {
+  readonly #plugins: readonly BundlePlugin[];
+  readonly #context: PluginContext;
+  readonly #assets: string[] = [];
+
+  /**
+   * @param log Records a plugin message in the build's messages
+   */
+  constructor(
+    plugins: readonly BundlePlugin[],
+    options: BundleOptions,
+    outDir: string,
+    log: (message: string) => void,
+  ) {
+    this.#plugins = plugins;
+    this.#context = {
+      projectDir: options.projectDir,
+      outDir,
+      options,
+      addMessage: log,
+      emitAsset: (fileName, contents) => this.#emitAsset(fileName, contents),
+    };
+  }
+
+  /** Files emitted with `emitAsset`, relative to the output directory. */
+  get assets(): readonly string[] {
+    return this.#assets;
+  }
+
+  async #emitAsset(
+    fileName: string,
+    contents: string | Uint8Array,
+  ): Promise<string> {
+    const file = normalize(fileName);
+    if (isAbsolute(file) || file === ".." || file.startsWith(`..${SEPARATOR}`)) {
+      throw new Error(
+        `Asset '${fileName}' must be a path inside the output directory`,
+      );
+    }
+    const path = join(this.#context.outDir, file);
+    await ensureDir(dirname(path));
+    await writeFileAtomic(path, contents);
+    const relativePath = file.split(SEPARATOR).join("/");
+    if (!this.#assets.includes(relativePath)) this.#assets.push(relativePath);
+    return path;
+  }
+
+  /** Run `hook` of every plugin that has it, naming the plugin on errors. */
+  async #run<R>(
+    hook: keyof typeof HOOK_PHASES,
+    call: (plugin: BundlePlugin) => R | Promise<R>,
+  ): Promise<void> {
+    for (const plugin of this.#plugins) {
+      if (typeof plugin[hook] !== "function") continue;
+      try {
+        await call(plugin);
+      } catch (err) {
+        throw new PluginError(plugin.name, hook, HOOK_PHASES[hook], err);
+      }
+    }
+  }
+
+  /** The entry point after all `resolveEntry` hooks. */
+  async resolveEntry(entry: string): Promise<string> {
+    await this.#run("resolveEntry", async (plugin) => {
+      const resolved = await plugin.resolveEntry!(entry, this.#context);
+      if (resolved) entry = resolved;
+    });
+    return entry;
+  }
+
+  cacheHit(result: BundleResult): Promise<void> {
+    return this.#run("cacheHit", (plugin) => plugin.cacheHit!(result, this.#context));
+  }
+
+  beforeBundle(entry: string): Promise<void> {
+    return this.#run("beforeBundle", (plugin) => plugin.beforeBundle!(entry, this.#context));
+  }
+
+  /**
+   * Run a transforming hook of every plugin.
+   *
+   * @param addMap Receives the source map of each transformation that
+   *               returned one
+   * @returns The transformed code
+   */
+  async transform(
+    hook: TransformHook,
+    code: string,
+    addMap: (map: string) => void,
+    output?: PluginOutput,
+  ): Promise<string> {
+    await this.#run(hook, async (plugin) => {
+      const result: PluginTransformResult = hook === "transform"
+        ? await plugin.transform!(code, this.#context)
+        : await plugin.beforeMinify!(code, output!, this.#context);
+      if (result === undefined) return;
+      if (typeof result === "string") {
+        code = result;
+      } else {
+        code = result.code;
+        if (result.map) addMap(result.map);
+      }
+    });
+    return code;
+  }
+
+  afterWrite(outputs: readonly PluginOutput[]): Promise<void> {
+    return this.#run("afterWrite", (plugin) => plugin.afterWrite!(outputs, this.#context));
+  }
+}
+
+/**
+ * Identify the plugins of a build for the cache fingerprint, by name and
+ * `cacheKey`.
+ *
+ * @returns `undefined` without plugins, so that adding none keeps the cache
+ * @internal
+ */
+export function pluginFingerprint(
+  plugins: readonly BundlePlugin[] | undefined,
+): string[] | undefined {
+  if (!plugins?.length) return undefined;
+  return plugins.map(({ name, cacheKey }) =>
+    cacheKey === undefined ? name : `${name}@${cacheKey}`
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * Remote module loading for the @vsce/bundler package.
+ *
+ * `@deno/emit` loads every module through a loader function. The loader built
+ * here reads remote modules from the project's `vendor/` directory when
+ * vendoring is enabled, and otherwise from Deno's module cache – downloading
+ * them first, unless the build is offline – and checks them against the
+ * project's lockfile. Modules an offline build cannot find are collected, so
+ * the build fails with the complete list instead of the first one.
+ *
+ * @module
+ */
+
+import { createCache } from "@deno/cache-dir";
+import type { bundle } from "@deno/emit";
+import { join } from "@std/path";
+
+import { BundleError } from "./errors.ts";
+import type { ContentLoader, Lockfile } from "./lockfile.ts";
+
+/** Module loader used by `@deno/emit`. */
+type Loader = NonNullable<NonNullable<Parameters<typeof bundle>[1]>["load"]>;
+
+/**
+ * Options of {@link createModuleLoader}.
+ * @internal
+ */
+export interface ModuleLoaderOptions {
+  /** Directory of vendored remote modules, when vendoring is enabled. */
+  vendorDir?: string;
+  /** Lockfile to check downloaded and cached remote modules against. */
+  lockfile?: Lockfile;
+  /** Whether to load remote modules only from `vendor/` and the module cache. */
+  offline: boolean;
+}
+
+/**
+ * A module loader for `@deno/emit`.
+ * @internal
+ */
+export interface ModuleLoader {
+  load: Loader;
+  /** Remote modules an offline build found neither vendored nor cached. */
+  missing: string[];
+}
+
+/**
+ * Create the module loader of a build.
+ *
+ * @internal
+ */
+export function createModuleLoader(options: ModuleLoaderOptions): ModuleLoader {
+  const { vendorDir, lockfile, offline } = options;
+  const cache = createCache({ cacheSetting: offline ? "only" : "use" });
+  const missing: string[] = [];
+
+  const loadContent: ContentLoader = async (specifier) => {
+    const response = await load(specifier);
+    return response?.kind === "module" ? response.content : undefined;
+  };
+
+  const load: Loader = async (specifier, isDynamic, cacheSetting, checksum) => {
+    if (!/^https?:/.test(specifier)) {
+      return await cache.load(specifier, isDynamic, cacheSetting, checksum);
+    }
+    // Like Deno, vendored modules are trusted as they are, even when edited
+    if (vendorDir) {
+      const content = await Deno.readFile(vendorPath(vendorDir, specifier))
+        .catch(() => undefined);
+      if (content) return { kind: "module", specifier, content };
+    }
+    const response = await cache.load(
+      specifier,
+      isDynamic,
+      offline ? "only" : cacheSetting,
+      checksum,
+    );
+    if (response === undefined) {
+      if (offline && !missing.includes(specifier)) missing.push(specifier);
+      return undefined;
+    }
+    if (response.kind === "module" && lockfile) {
+      await lockfile.verify(response.specifier, response.content, loadContent);
+    }
+    return response;
+  };
+
+  return { load, missing };
+}
+
+/**
+ * The error of an offline build that cannot load `specifiers`.
+ *
+ * @internal
+ */
+export function notCachedError(specifiers: readonly string[]): BundleError {
+  const list = specifiers.map((specifier) => `  ${specifier}`).join("\n");
+  return new BundleError(
+    `Offline build cannot load ${specifiers.length} remote module(s) that are neither vendored nor in the Deno module cache:\n${list}\nRun \`deno install\` with network access to cache them.`,
+    { code: "MODULE_NOT_CACHED", phase: "bundle", file: specifiers[0] },
+  );
+}
+
+/** Path of a remote module in a `vendor/` directory created by Deno. */
+function vendorPath(vendorDir: string, specifier: string): string {
+  const url = new URL(specifier);
+  return join(
+    vendorDir,
+    url.port ? `${url.hostname}_${url.port}` : url.hostname,
+    ...decodeURIComponent(url.pathname).split("/"),
+  );
+}
@@ -0,0 +1,151 @@
+/**
+ * Built-in build reporters of the @vsce/bundler package.
+ *
+ * A {@link BuildReporter} receives the {@link BuildEvent}s of a build. The
+ * pretty reporter renders them as colored lines for a terminal and is the
+ * default of `bundleExtension`; the NDJSON reporter writes one JSON object
+ * per event for CI systems and dashboards; the silent reporter drops them.
+ *
+ * @module
+ */
+
+import type {
+  BuildReporter,
+  OutputEvent,
+  PrettyReporterOptions,
+} from "../types.ts";
+
+// Attempt to import colors (optional dependency)
+type ColorFn = (s: string) => string;
+interface Colors {
+  green: ColorFn;
+  red: ColorFn;
+  blue: ColorFn;
+  cyan: ColorFn;
+  yellow: ColorFn;
+}
+
+let colors: Colors = {
+  green: (s) => s,
+  red: (s) => s,
+  blue: (s) => s,
+  cyan: (s) => s,
+  yellow: (s) => s,
+};
+try {
+  const fmt = await import("@std/fmt/colors");
+  const { green, red, blue, cyan, yellow } = fmt as unknown as Colors & Record<string, unknown>;
+  colors = { green, red, blue, cyan, yellow };
+} catch {
+  /* colors not available – keep no-op implementations */
+}
+
+/**
+ * Print build events as colored, human-readable lines.
+ *
+ * Warnings and info messages are printed unless `quiet` is set; errors and
+ * failed builds always go to `logError`. With `verbose`, progress details, the
+ * cache decision, bundle sizes and the build time are printed as well.
+ *
+ * @example Printing verbose output to stderr
+ * ```ts
+ * await bundleExtension({
+ *   projectDir: "/path/to/extension",
+ *   reporters: [prettyReporter({ log: console.error, verbose: true })],
+ * });
+ * ```
+ */
+export function prettyReporter(
+  options: PrettyReporterOptions = {},
+): BuildReporter {
+  const {
+    log = console.log,
+    logError = console.error,
+    verbose = false,
+    quiet = false,
+  } = options;
+  const print = (msg: string) => {
+    if (!quiet) log(msg);
+  };
+  const detail = (msg: string) => {
+    if (verbose && !quiet) log(msg);
+  };
+
+  return (event) => {
+    switch (event.type) {
+      case "cache":
+        if (event.hit) {
+          detail(colors.green("⚡ No changes detected. Using cached build."));
+        } else if (event.reason !== "disabled") {
+          detail(colors.yellow(`🔄 Rebuilding (cache miss: ${event.reason})`));
+        }
+        break;
+      case "message":
+        if (event.level === "debug") detail(colors.cyan(event.message));
+        else if (event.level === "info") print(event.message);
+        else if (event.level === "warning") print(colors.yellow(event.message));
+        else logError(colors.red(event.message));
+        break;
+      case "output":
+        if (event.kind === "bundle") detail(colors.blue(formatBundleSize(event)));
+        break;
+      case "build-end":
+        if (!event.fromCache) {
+          detail(colors.green(`✅ Build completed in ${event.durationMs.toFixed(0)} ms`));
+        }
+        break;
+      case "build-failed": {
+        logError(colors.red(`❌ Build failed (${event.code}):`));
+        logError(colors.red(event.message));
+        if (event.file) {
+          const position = event.line === undefined ? "" : `:${event.line}:${event.column ?? 1}`;
+          logError(colors.red(`   at ${event.file}${position}`));
+        }
+        break;
+      }
+    }
+  };
+}
+
+/**
+ * Write each build event as a line of JSON (NDJSON), e.g.
+ * `{"type":"phase-end","time":1718000000000,"phase":"bundle","durationMs":412.5}`.
+ *
+ * @param write Sink for the lines (defaults to `console.log`)
+ *
+ * @example Logging build events in CI
+ * ```ts
+ * await bundleExtension({
+ *   projectDir: "/path/to/extension",
+ *   reporters: [ndjsonReporter()],
+ * });
+ * ```
+ */
+export function ndjsonReporter(
+  write: (line: string) => void = console.log,
+): BuildReporter {
+  return (event) => write(JSON.stringify(event));
+}
+
+/**
+ * Drop all build events, e.g. to replace the default reporter of
+ * `bundleExtension` and rely on its result and errors only.
+ */
+export function silentReporter(): BuildReporter {
+  return () => {};
+}
+
+/** Size line of a written bundle, with the change since the last build. */
+function formatBundleSize(event: OutputEvent): string {
+  const current = event.sizes?.current.raw ?? event.size;
+  const previous = event.sizes?.previous?.raw;
+  const growthPercent = event.sizes?.growthPercent;
+  const change = previous !== undefined && current !== previous
+    ? `, ${current > previous ? "+" : "−"}${
+      (Math.abs(current - previous) / 1024).toFixed(1)
+    } kB (${growthPercent! > 0 ? "+" : ""}${growthPercent}%) since the last build`
+    : "";
+  return `📦 ${event.target ? `${event.target} bundle` : "Bundle"} size: ${
+    (current / 1024).toFixed(1)
+  } kB${change}`;
+}
@@ -0,0 +1,191 @@
+/**
+ * Rule catalog of the web compatibility validator.
+ *
+ * Every issue reported by `analyzeWebCompatibility` carries the id of one of
+ * these rules. Where a portable VS Code or web platform API exists, the rule
+ * points to it in the issue's suggestion.
+ *
+ * @module
+ */
+
+import type { CompatSeverity } from "../types.ts";
+
+/**
+ * Metadata of a validator rule.
+ * @internal
+ */
+export interface CompatRule {
+  /** Stable rule identifier. */
+  id: string;
+  /** Severity used unless configured otherwise. */
+  severity: CompatSeverity;
+  /** One-line description of what the rule detects. */
+  description: string;
+}
+
+/**
+ * A Node-only global and the rule that reports it.
+ * @internal
+ */
+export interface NodeGlobalRule {
+  /** Rule reporting usage of the global. */
+  ruleId: string;
+  /** Portable alternative. */
+  suggestion: string;
+  /** Only report accesses of this member (e.g. `resolve` for `require.resolve`). */
+  member?: string;
+}
+
+/** All validator rules, keyed by id. @internal */
+export const COMPAT_RULES: Record<string, CompatRule> = {
+  "node-builtin-import": {
+    id: "node-builtin-import",
+    severity: "error",
+    description: "Imports or re-exports a Node built-in module",
+  },
+  "node-builtin-require": {
+    id: "node-builtin-require",
+    severity: "error",
+    description: "Requires a Node built-in module",
+  },
+  "deno-namespace": {
+    id: "deno-namespace",
+    severity: "error",
+    description: "Uses the Deno namespace",
+  },
+  "node-global-process": {
+    id: "node-global-process",
+    severity: "error",
+    description: "Uses the Node 'process' global",
+  },
+  "node-global-dirname": {
+    id: "node-global-dirname",
+    severity: "error",
+    description: "Uses the Node '__dirname' or '__filename' globals",
+  },
+  "node-global-buffer": {
+    id: "node-global-buffer",
+    severity: "error",
+    description: "Uses the Node 'Buffer' global",
+  },
+  "node-global-set-immediate": {
+    id: "node-global-set-immediate",
+    severity: "error",
+    description: "Uses the Node 'setImmediate' global",
+  },
+  "node-global-global": {
+    id: "node-global-global",
+    severity: "error",
+    description: "Uses the Node 'global' object",
+  },
+  "node-require-resolve": {
+    id: "node-require-resolve",
+    severity: "error",
+    description: "Resolves files with 'require.resolve'",
+  },
+  "sync-xhr": {
+    id: "sync-xhr",
+    severity: "warning",
+    description: "Performs a synchronous XMLHttpRequest",
+  },
+};
+
+/** All manifest linter rules, keyed by id. @internal */
+export const MANIFEST_RULES: Record<string, CompatRule> = {
+  "manifest-command-unregistered": {
+    id: "manifest-command-unregistered",
+    severity: "error",
+    description: "Contributes a command that the code never registers",
+  },
+  "manifest-command-undeclared": {
+    id: "manifest-command-undeclared",
+    severity: "warning",
+    description: "Registers a command that package.json does not contribute",
+  },
+  "manifest-activation-event-unknown": {
+    id: "manifest-activation-event-unknown",
+    severity: "error",
+    description: "Activates on a command or view that does not exist",
+  },
+  "manifest-view-unregistered": {
+    id: "manifest-view-unregistered",
+    severity: "warning",
+    description: "Contributes a view that the code never registers",
+  },
+  "manifest-view-undeclared": {
+    id: "manifest-view-undeclared",
+    severity: "error",
+    description: "Registers a view that package.json does not contribute",
+  },
+  "manifest-configuration-undeclared": {
+    id: "manifest-configuration-undeclared",
+    severity: "warning",
+    description: "Reads a configuration setting that package.json does not contribute",
+  },
+  "manifest-browser-missing": {
+    id: "manifest-browser-missing",
+    severity: "warning",
+    description: "Declares no 'browser' entry for the web extension host",
+  },
+  "manifest-capabilities-missing": {
+    id: "manifest-capabilities-missing",
+    severity: "warning",
+    description: "Web extension does not declare untrustedWorkspaces/virtualWorkspaces support",
+  },
+  "manifest-contribution-malformed": {
+    id: "manifest-contribution-malformed",
+    severity: "error",
+    description: "Declares contributions or activation events that are not shaped as VS Code expects",
+  },
+};
+
+/** Web-compatible alternatives for Node built-in modules. @internal */
+export const BUILTIN_SUGGESTIONS: Record<string, string> = {
+  fs: "Use vscode.workspace.fs to read and write files.",
+  path: "Use vscode.Uri.joinPath or string operations on URI paths.",
+  crypto: "Use the Web Crypto API (globalThis.crypto).",
+  http: "Use the global fetch API.",
+  https: "Use the global fetch API.",
+  url: "Use the global URL and URLSearchParams classes.",
+  buffer: "Use Uint8Array with TextEncoder/TextDecoder.",
+  util: "Use TextEncoder/TextDecoder or a web-compatible utility library.",
+  child_process: "Child processes are unavailable in web extensions; guard this code path to desktop hosts.",
+  worker_threads: "Use the Web Worker API.",
+  process: "Use vscode.env for host information.",
+};
+
+/** Node-only globals, keyed by global name. @internal */
+export const NODE_GLOBAL_RULES: Record<string, NodeGlobalRule> = {
+  process: {
+    ruleId: "node-global-process",
+    suggestion: "Use vscode.env for host information and vscode.workspace.getConfiguration instead of environment variables.",
+  },
+  __dirname: {
+    ruleId: "node-global-dirname",
+    suggestion: "Use context.extensionUri with vscode.Uri.joinPath to locate extension files.",
+  },
+  __filename: {
+    ruleId: "node-global-dirname",
+    suggestion: "Use context.extensionUri with vscode.Uri.joinPath to locate extension files.",
+  },
+  Buffer: {
+    ruleId: "node-global-buffer",
+    suggestion: "Use Uint8Array with TextEncoder/TextDecoder.",
+  },
+  setImmediate: {
+    ruleId: "node-global-set-immediate",
+    suggestion: "Use setTimeout(callback, 0) or queueMicrotask.",
+  },
+  global: {
+    ruleId: "node-global-global",
+    suggestion: "Use globalThis.",
+  },
+  require: {
+    ruleId: "node-require-resolve",
+    suggestion: "Use vscode.Uri.joinPath(context.extensionUri, …) and vscode.workspace.fs to load bundled files.",
+    member: "resolve",
+  },
+};
+
+/** Suggestion for the `sync-xhr` rule. @internal */
+export const SYNC_XHR_SUGGESTION = "Use the asynchronous fetch API; synchronous requests block the extension host.";
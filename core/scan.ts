@@ -0,0 +1,404 @@
+/**
+ * Source scanning for the @vsce/bundler package.
+ *
+ * Modules are parsed with the TypeScript compiler API (loaded lazily, so
+ * bundling alone never pays for it). Unlike a regex scan, comments, string
+ * contents and type-only imports are never mistaken for runtime code.
+ *
+ * @module
+ */
+
+import type * as TypeScript from "typescript";
+
+type Ts = typeof TypeScript;
+
+let typescript: Promise<Ts> | undefined;
+
+/**
+ * Load the TypeScript compiler API on first use.
+ * @internal
+ */
+export function loadTypeScript(): Promise<Ts> {
+  return typescript ??= import("typescript").then((mod) => mod.default as Ts);
+}
+
+/** A 1-based position inside a module. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * A runtime reference to another module.
+ * @internal
+ */
+export interface ModuleReference extends SourcePosition {
+  /** Specifier as written in the source. */
+  specifier: string;
+  /** Syntax that introduced the reference. */
+  kind: "import" | "export" | "dynamic-import" | "require";
+}
+
+/**
+ * A property access on a global namespace object, e.g. `Deno.readFile`.
+ * @internal
+ */
+export interface NamespaceAccess extends SourcePosition {
+  /** Namespace identifier, e.g. `Deno`. */
+  namespace: string;
+  /** Accessed property, e.g. `readFile`. */
+  property: string;
+}
+
+/**
+ * A runtime reference to a global variable that is not shadowed by a
+ * declaration in the module.
+ * @internal
+ */
+export interface GlobalAccess extends SourcePosition {
+  /** Global name, e.g. `process`. */
+  name: string;
+  /** Accessed member, e.g. `env` for `process.env`. */
+  member?: string;
+}
+
+/**
+ * Result of scanning a single module.
+ * @internal
+ */
+export interface ScanResult {
+  /** Runtime module references, in source order. */
+  references: ModuleReference[];
+  /** Accesses on the `Deno` namespace, in source order. */
+  denoAccesses: NamespaceAccess[];
+  /** References to the requested globals, in source order. */
+  globalAccesses: GlobalAccess[];
+  /**
+   * `open(method, url, false)` calls in modules that use `XMLHttpRequest`,
+   * in source order.
+   */
+  syncXhrCalls: SourcePosition[];
+}
+
+/** TypeScript script kinds per Deno media type. */
+const SCRIPT_KINDS: Record<string, keyof typeof TypeScript.ScriptKind> = {
+  JavaScript: "JS",
+  Mjs: "JS",
+  Cjs: "JS",
+  JSX: "JSX",
+  TypeScript: "TS",
+  Mts: "TS",
+  Cts: "TS",
+  TSX: "TSX",
+};
+
+/**
+ * Whether `node` is the name introduced by a declaration (variable,
+ * parameter, function, class, import binding …).
+ */
+function isDeclarationName(ts: Ts, node: TypeScript.Identifier): boolean {
+  const parent = node.parent as TypeScript.Node & { name?: TypeScript.Node };
+  if (parent.name !== node) return false;
+  return ts.isVariableDeclaration(parent) || ts.isParameter(parent) ||
+    ts.isBindingElement(parent) || ts.isFunctionDeclaration(parent) ||
+    ts.isFunctionExpression(parent) || ts.isClassDeclaration(parent) ||
+    ts.isClassExpression(parent) || ts.isImportClause(parent) ||
+    ts.isNamespaceImport(parent) || ts.isImportSpecifier(parent) ||
+    ts.isImportEqualsDeclaration(parent) || ts.isEnumDeclaration(parent) ||
+    ts.isModuleDeclaration(parent);
+}
+
+/**
+ * Whether `node` reads a variable, as opposed to naming a property,
+ * declaration or label. `typeof x` checks are treated as feature detection,
+ * not as usage.
+ */
+function isValueReference(ts: Ts, node: TypeScript.Identifier): boolean {
+  const parent = node.parent as TypeScript.Node & { name?: TypeScript.Node };
+  if (isDeclarationName(ts, node)) return false;
+  if (
+    parent.name === node &&
+    (ts.isPropertyAccessExpression(parent) || ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) || ts.isMethodDeclaration(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) || ts.isEnumMember(parent) ||
+      ts.isExportSpecifier(parent))
+  ) {
+    return false;
+  }
+  return !ts.isQualifiedName(parent) && !ts.isLabeledStatement(parent) &&
+    !ts.isBreakOrContinueStatement(parent) && !ts.isTypeOfExpression(parent);
+}
+
+/**
+ * Whether modules of the given Deno media type contain runtime code that can
+ * be scanned (declaration files, JSON and Wasm cannot).
+ *
+ * @internal
+ */
+export function isScannable(mediaType: string | undefined): boolean {
+  return mediaType !== undefined && mediaType in SCRIPT_KINDS;
+}
+
+/**
+ * Parse `source` and collect its runtime module references, `Deno`
+ * namespace accesses, references to the given globals and synchronous
+ * `XMLHttpRequest` calls.
+ *
+ * @param source Module source text
+ * @param fileName File name used for diagnostics and script kind detection
+ * @param mediaType Deno media type of the module (defaults to TypeScript)
+ * @param globals Global names whose references should be collected; a name
+ *                declared anywhere in the module is treated as shadowed
+ * @internal
+ */
+export async function scanSource(
+  source: string,
+  fileName: string,
+  mediaType = "TypeScript",
+  globals: ReadonlySet<string> = new Set(),
+): Promise<ScanResult> {
+  const ts = await loadTypeScript();
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind[SCRIPT_KINDS[mediaType] ?? "TS"],
+  );
+
+  const references: ModuleReference[] = [];
+  const denoAccesses: NamespaceAccess[] = [];
+  const globalAccesses: GlobalAccess[] = [];
+  const syncXhrCalls: SourcePosition[] = [];
+  const declared = new Set<string>();
+  let usesXhr = false;
+  const positionOf = (node: TypeScript.Node): SourcePosition => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(sourceFile),
+    );
+    return { line: line + 1, column: character + 1 };
+  };
+  const addReference = (
+    node: TypeScript.Expression | undefined,
+    kind: ModuleReference["kind"],
+  ) => {
+    if (node && ts.isStringLiteralLike(node)) {
+      references.push({ specifier: node.text, kind, ...positionOf(node) });
+    }
+  };
+
+  const visit = (node: TypeScript.Node): void => {
+    if (ts.isImportDeclaration(node)) {
+      // `import type` is erased and never reaches the runtime
+      if (!node.importClause?.isTypeOnly) {
+        addReference(node.moduleSpecifier, "import");
+      }
+      return;
+    }
+    if (ts.isExportDeclaration(node)) {
+      if (!node.isTypeOnly) addReference(node.moduleSpecifier, "export");
+      return;
+    }
+    if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference)
+    ) {
+      if (!node.isTypeOnly) {
+        addReference(node.moduleReference.expression, "require");
+      }
+      return;
+    }
+    if (ts.isCallExpression(node)) {
+      if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        addReference(node.arguments[0], "dynamic-import");
+      } else if (
+        ts.isIdentifier(node.expression) && node.expression.text === "require"
+      ) {
+        addReference(node.arguments[0], "require");
+      }
+    }
+    if (
+      ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === "open" &&
+      node.arguments[2]?.kind === ts.SyntaxKind.FalseKeyword
+    ) {
+      syncXhrCalls.push(positionOf(node));
+    }
+    if (ts.isIdentifier(node)) {
+      if (isDeclarationName(ts, node)) {
+        declared.add(node.text);
+      } else if (node.text === "XMLHttpRequest" && isValueReference(ts, node)) {
+        usesXhr = true;
+      } else if (globals.has(node.text) && isValueReference(ts, node)) {
+        const parent = node.parent;
+        const member = ts.isPropertyAccessExpression(parent) &&
+            parent.expression === node
+          ? parent.name.text
+          : undefined;
+        globalAccesses.push({ name: node.text, member, ...positionOf(node) });
+      }
+    }
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) && node.expression.text === "Deno"
+    ) {
+      denoAccesses.push({
+        namespace: "Deno",
+        property: node.name.text,
+        ...positionOf(node),
+      });
+    }
+    // Type annotations never reach the runtime
+    if (ts.isTypeNode(node)) return;
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return {
+    references,
+    denoAccesses,
+    globalAccesses: globalAccesses.filter(({ name }) => !declared.has(name)),
+    syncXhrCalls: usesXhr ? syncXhrCalls : [],
+  };
+}
+
+/**
+ * A string literal argument of a registration call, e.g. the command id of
+ * `commands.registerCommand("ext.hello", …)`.
+ * @internal
+ */
+export interface StringArgument extends SourcePosition {
+  /** Value of the literal. */
+  value: string;
+}
+
+/**
+ * A read of the extension's configuration.
+ * @internal
+ */
+export interface ConfigurationRead extends SourcePosition {
+  /** Section passed to `getConfiguration`, if any. */
+  section?: string;
+  /** Key read from the section with `get`/`has`/`inspect`/`update`, if any. */
+  key?: string;
+}
+
+/**
+ * VS Code API registrations found in a module.
+ * @internal
+ */
+export interface RegistrationScan {
+  /** Ids passed to `registerCommand`/`registerTextEditorCommand`. */
+  commands: StringArgument[];
+  /** Ids passed to `createTreeView` and the view provider registrations. */
+  views: StringArgument[];
+  /** Configuration sections and keys read with `getConfiguration`. */
+  configurationReads: ConfigurationRead[];
+}
+
+/** API functions registering a command. */
+const COMMAND_REGISTRARS = new Set(["registerCommand", "registerTextEditorCommand"]);
+
+/** API functions registering a view. */
+const VIEW_REGISTRARS = new Set([
+  "createTreeView",
+  "registerTreeDataProvider",
+  "registerWebviewViewProvider",
+]);
+
+/** `WorkspaceConfiguration` methods taking a key. */
+const CONFIGURATION_ACCESSORS = new Set(["get", "has", "inspect", "update"]);
+
+/**
+ * Parse `source` and collect the command, view and configuration ids it uses
+ * with the VS Code API. Only string literal ids are collected; calls are
+ * matched by function name, so `vscode.commands.registerCommand` and a
+ * destructured `registerCommand` are both found.
+ *
+ * @param source Module source text
+ * @param fileName File name used for diagnostics and script kind detection
+ * @param mediaType Deno media type of the module (defaults to TypeScript)
+ * @internal
+ */
+export async function scanRegistrations(
+  source: string,
+  fileName: string,
+  mediaType = "TypeScript",
+): Promise<RegistrationScan> {
+  const ts = await loadTypeScript();
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind[SCRIPT_KINDS[mediaType] ?? "TS"],
+  );
+
+  const commands: StringArgument[] = [];
+  const views: StringArgument[] = [];
+  const configurationReads: ConfigurationRead[] = [];
+  // Variables holding a configuration object, mapped to its section
+  const configurations = new Map<string, string | undefined>();
+  const positionOf = (node: TypeScript.Node): SourcePosition => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+      node.getStart(sourceFile),
+    );
+    return { line: line + 1, column: character + 1 };
+  };
+  const calledName = (node: TypeScript.CallExpression): string | undefined => {
+    if (ts.isPropertyAccessExpression(node.expression)) return node.expression.name.text;
+    if (ts.isIdentifier(node.expression)) return node.expression.text;
+    return undefined;
+  };
+  const literal = (node: TypeScript.Expression | undefined): string | undefined =>
+    node && ts.isStringLiteralLike(node) ? node.text : undefined;
+  // The key read by `<configuration>.get("key")`, given the configuration
+  const keyReadOn = (node: TypeScript.Node): TypeScript.Expression | undefined => {
+    const access = node.parent;
+    if (
+      ts.isPropertyAccessExpression(access) && access.expression === node &&
+      CONFIGURATION_ACCESSORS.has(access.name.text) &&
+      ts.isCallExpression(access.parent) && access.parent.expression === access
+    ) {
+      return access.parent.arguments[0];
+    }
+    return undefined;
+  };
+
+  const visit = (node: TypeScript.Node): void => {
+    if (ts.isCallExpression(node)) {
+      const name = calledName(node);
+      const id = literal(node.arguments[0]);
+      if (name && COMMAND_REGISTRARS.has(name) && id !== undefined) {
+        commands.push({ value: id, ...positionOf(node.arguments[0]) });
+      } else if (name && VIEW_REGISTRARS.has(name) && id !== undefined) {
+        views.push({ value: id, ...positionOf(node.arguments[0]) });
+      } else if (name === "getConfiguration" && (node.arguments.length === 0 || id !== undefined)) {
+        const keyArgument = keyReadOn(node);
+        const key = literal(keyArgument);
+        if (key !== undefined) {
+          configurationReads.push({ section: id, key, ...positionOf(keyArgument!) });
+        } else if (ts.isVariableDeclaration(node.parent) && ts.isIdentifier(node.parent.name)) {
+          configurations.set(node.parent.name.text, id);
+        } else if (id !== undefined) {
+          configurationReads.push({ section: id, ...positionOf(node.arguments[0]) });
+        }
+      }
+    }
+    if (ts.isIdentifier(node) && configurations.has(node.text)) {
+      const key = literal(keyReadOn(node));
+      if (key !== undefined) {
+        configurationReads.push({
+          section: configurations.get(node.text),
+          key,
+          ...positionOf(keyReadOn(node)!),
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return { commands, views, configurationReads };
+}
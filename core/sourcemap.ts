@@ -0,0 +1,304 @@
+/**
+ * Source map support for the @vsce/bundler package.
+ *
+ * A build transforms the code up to three times – bundling with
+ * `@deno/emit`, converting for an extension host and minifying – and each
+ * step maps its output only to its own input. The maps are chained here into
+ * a single Source Map v3 from the written bundle to the original TypeScript
+ * sources, so that stack traces from the extension host resolve to the lines
+ * of `extension.ts`.
+ *
+ * @module
+ */
+
+import { fromFileUrl, relative, SEPARATOR } from "@std/path";
+
+import type { SourceMapMode } from "../types.ts";
+
+/**
+ * A Source Map v3 object.
+ * @internal
+ */
+export interface SourceMap {
+  version: 3;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  names: string[];
+  mappings: string;
+}
+
+/**
+ * A decoded mapping: `[generatedColumn]` or
+ * `[generatedColumn, source, originalLine, originalColumn, name?]`, with
+ * absolute, zero-based values.
+ * @internal
+ */
+export type Segment = number[];
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const BASE64_VALUES = new Map([...BASE64].map((char, index) => [char, index]));
+
+/** Trailing `//# sourceMappingURL=` comment, as emitted by the tools. */
+const SOURCE_MAP_COMMENT_RE = /\n?\/\/# sourceMappingURL=(\S+)\s*$/;
+
+/** Prefix of inline source maps. */
+const INLINE_PREFIX = "data:application/json;base64,";
+
+/** Decode one VLQ-encoded segment into its (relative) values. */
+function decodeVlq(text: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of text) {
+    const digit = BASE64_VALUES.get(char);
+    if (digit === undefined) {
+      throw new Error(`Invalid source map mappings: unexpected '${char}'`);
+    }
+    value += (digit & 31) * 2 ** shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value % 2 ? -(value - 1) / 2 : value / 2);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/** VLQ-encode a single value. */
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? -value * 2 + 1 : value * 2;
+  let text = "";
+  do {
+    let digit = vlq % 32;
+    vlq = Math.floor(vlq / 32);
+    if (vlq > 0) digit |= 32;
+    text += BASE64[digit];
+  } while (vlq > 0);
+  return text;
+}
+
+/**
+ * Decode `mappings` into segments per generated line, sorted by column.
+ * @internal
+ */
+export function decodeMappings(mappings: string): Segment[][] {
+  let source = 0;
+  let line = 0;
+  let column = 0;
+  let name = 0;
+  return mappings.split(";").map((text) => {
+    let generated = 0;
+    const segments: Segment[] = [];
+    for (const part of text.split(",")) {
+      if (!part) continue;
+      const values = decodeVlq(part);
+      generated += values[0];
+      if (values.length < 4) {
+        segments.push([generated]);
+        continue;
+      }
+      source += values[1];
+      line += values[2];
+      column += values[3];
+      if (values.length < 5) {
+        segments.push([generated, source, line, column]);
+      } else {
+        name += values[4];
+        segments.push([generated, source, line, column, name]);
+      }
+    }
+    return segments.sort((a, b) => a[0] - b[0]);
+  });
+}
+
+/** Encode segments per generated line into `mappings`. */
+function encodeMappings(lines: readonly Segment[][]): string {
+  const previous = [0, 0, 0, 0];
+  return lines.map((segments) => {
+    let generated = 0;
+    return segments.map((segment) => {
+      let text = encodeVlq(segment[0] - generated);
+      generated = segment[0];
+      for (let i = 1; i < segment.length; i++) {
+        text += encodeVlq(segment[i] - previous[i - 1]);
+        previous[i - 1] = segment[i];
+      }
+      return text;
+    }).join(",");
+  }).join(";");
+}
+
+/** The segment covering `column`: the last one starting at or before it. */
+function lookup(segments: readonly Segment[] | undefined, column: number): Segment | undefined {
+  if (!segments) return undefined;
+  let low = 0;
+  let high = segments.length - 1;
+  let found: Segment | undefined;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (segments[middle][0] <= column) {
+      found = segments[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Parse a source map, returning `undefined` for anything that is not a
+ * usable v3 map (tools and test doubles may return `"{}"`).
+ *
+ * @internal
+ */
+export function parseSourceMap(json: string | undefined): SourceMap | undefined {
+  if (!json) return undefined;
+  let map: Partial<SourceMap>;
+  try {
+    map = JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+  if (typeof map.mappings !== "string" || !Array.isArray(map.sources)) {
+    return undefined;
+  }
+  return { ...map, version: 3, names: map.names ?? [] } as SourceMap;
+}
+
+/**
+ * Remove the trailing `//# sourceMappingURL=` comment from `code`.
+ *
+ * @returns The code and the inline map, if the comment carried one
+ * @internal
+ */
+export function stripSourceMapComment(
+  code: string,
+): { code: string; inlineMap?: string } {
+  const match = code.match(SOURCE_MAP_COMMENT_RE);
+  if (!match) return { code };
+  const url = match[1];
+  return {
+    code: code.slice(0, match.index),
+    inlineMap: url.startsWith(INLINE_PREFIX)
+      ? new TextDecoder().decode(
+        Uint8Array.from(atob(url.slice(INLINE_PREFIX.length)), (c) => c.charCodeAt(0)),
+      )
+      : undefined,
+  };
+}
+
+/**
+ * Chain two maps: `outer` maps the final code to an intermediate file, which
+ * `inner` maps to the original sources. Code mapped to parts of the
+ * intermediate file that `inner` does not cover stays unmapped.
+ *
+ * @returns A map from the final code to the sources of `inner`
+ * @internal
+ */
+export function chainSourceMaps(outer: SourceMap, inner: SourceMap): SourceMap {
+  const innerLines = decodeMappings(inner.mappings);
+  const names: string[] = [];
+  const nameIndexes = new Map<string, number>();
+  const nameIndex = (name: string) => {
+    if (!nameIndexes.has(name)) nameIndexes.set(name, names.push(name) - 1);
+    return nameIndexes.get(name)!;
+  };
+
+  const lines = decodeMappings(outer.mappings).map((segments) =>
+    segments.map((segment): Segment => {
+      if (segment.length < 4) return [segment[0]];
+      const original = lookup(innerLines[segment[2]], segment[3]);
+      if (!original || original.length < 4) return [segment[0]];
+      // Prefer the original identifier over the one of the intermediate code
+      const name = original.length === 5
+        ? inner.names[original[4]]
+        : segment.length === 5
+        ? outer.names[segment[4]]
+        : undefined;
+      const mapped = [segment[0], original[1], original[2], original[3]];
+      return name === undefined ? mapped : [...mapped, nameIndex(name)];
+    })
+  );
+
+  return {
+    version: 3,
+    ...(outer.file && { file: outer.file }),
+    ...(inner.sourceRoot && { sourceRoot: inner.sourceRoot }),
+    sources: inner.sources,
+    ...(inner.sourcesContent && { sourcesContent: inner.sourcesContent }),
+    names,
+    mappings: encodeMappings(lines),
+  };
+}
+
+/**
+ * Make the `file:` sources of the bundler's map relative to the directory of
+ * the bundle, like `tsc` does, and embed or drop their contents.
+ *
+ * @param map The map of the emitted bundle
+ * @param bundleDir Directory the final bundle is written to
+ * @param sourcesContent Whether to embed the source code
+ * @internal
+ */
+export async function normalizeSources(
+  map: SourceMap,
+  bundleDir: string,
+  sourcesContent: boolean,
+): Promise<SourceMap> {
+  const urls = map.sources.map((source) =>
+    map.sourceRoot ? new URL(source, map.sourceRoot).href : source
+  );
+  const { sourceRoot: _, sourcesContent: contents, ...rest } = map;
+  const normalized: SourceMap = {
+    ...rest,
+    sources: urls.map((url) =>
+      url.startsWith("file:")
+        ? relative(bundleDir, fromFileUrl(url)).split(SEPARATOR).join("/")
+        : url
+    ),
+  };
+  if (sourcesContent) {
+    normalized.sourcesContent = await Promise.all(urls.map(async (url, i) => {
+      if (typeof contents?.[i] === "string") return contents[i];
+      if (!url.startsWith("file:")) return null;
+      return await Deno.readTextFile(fromFileUrl(url)).catch(() => null);
+    }));
+  }
+  return normalized;
+}
+
+/**
+ * Attach `map` to `code` as requested by `mode`.
+ *
+ * @param mapName File name of the external map, relative to the bundle
+ * @returns The code to write, with a `sourceMappingURL` comment for
+ *          `inline` and `external`, and the map file contents for
+ *          `external` and `hidden`
+ * @internal
+ */
+export function attachSourceMap(
+  code: string,
+  map: SourceMap,
+  mode: Exclude<SourceMapMode, "none">,
+  mapName: string,
+): { code: string; mapFile?: string } {
+  const json = JSON.stringify(map);
+  if (mode === "inline") {
+    const bytes = new TextEncoder().encode(json);
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return { code: `${code}\n//# sourceMappingURL=${INLINE_PREFIX}${btoa(binary)}` };
+  }
+  return {
+    code: mode === "external" ? `${code}\n//# sourceMappingURL=${mapName}` : code,
+    mapFile: json,
+  };
+}
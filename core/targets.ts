@@ -0,0 +1,84 @@
+/**
+ * Extension host targets for the @vsce/bundler package.
+ *
+ * A single ESM bundle of the entry point is converted once per target into
+ * the module format its extension host loads: CommonJS with
+ * `module.exports.activate` for the desktop (Node) host and a self-contained
+ * CommonJS bundle for the browser's web worker host. Each target only allows
+ * the imports its host provides at runtime: the configured externals, plus
+ * Node built-in modules for the desktop host.
+ *
+ * @module
+ */
+
+import type { BundleTarget } from "../types.ts";
+import { isExternal } from "./externals.ts";
+import { scanSource } from "./scan.ts";
+import { builtinModule } from "./validate.ts";
+
+/**
+ * Host-specific settings of a target.
+ * @internal
+ */
+export interface TargetSpec {
+  /** esbuild platform used for the conversion. */
+  platform: "node" | "browser";
+  /** Whether imports of Node built-in modules are provided by the host. */
+  allowBuiltins: boolean;
+}
+
+/** Settings per target. @internal */
+export const TARGETS: Record<BundleTarget, TargetSpec> = {
+  node: { platform: "node", allowBuiltins: true },
+  webworker: { platform: "browser", allowBuiltins: false },
+};
+
+/**
+ * Output filename of a target's bundle inside `outDir`, e.g.
+ * `webworker/extension.js`.
+ *
+ * @internal
+ */
+export function targetOutFile(target: BundleTarget, outFile: string): string {
+  return `${target}/${outFile}`;
+}
+
+/**
+ * Convert an ESM bundle into the CommonJS bundle loaded by the target's
+ * extension host.
+ *
+ * @param code The ESM bundle
+ * @param target The extension host to convert for
+ * @param external Specifiers the extension host provides
+ * @param languageTarget esbuild target to lower the syntax to, e.g. `node16`
+ * @param sourcemap Whether to return a map from the converted to the ESM bundle
+ * @returns The converted bundle and its source map
+ * @throws {Error} If the bundle imports a module the host does not provide
+ * @internal
+ */
+export async function convertForTarget(
+  code: string,
+  target: BundleTarget,
+  external: readonly string[],
+  languageTarget?: string,
+  sourcemap = false,
+): Promise<{ code: string; map?: string }> {
+  const spec = TARGETS[target];
+  const { references } = await scanSource(code, "bundle.js", "JavaScript");
+  for (const { specifier } of references) {
+    if (isExternal(specifier, external)) continue;
+    if (spec.allowBuiltins && builtinModule(specifier)) continue;
+    throw new Error(
+      `The ${target} bundle imports '${specifier}', which the ${target} extension host does not provide`,
+    );
+  }
+
+  const esbuild = await import("npm:esbuild@0.19.2");
+  const result = await esbuild.transform(code, {
+    format: "cjs",
+    platform: spec.platform,
+    target: languageTarget,
+    sourcemap: sourcemap ? "external" : false,
+  });
+  return { code: result.code, map: sourcemap ? result.map : undefined };
+}
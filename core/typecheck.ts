@@ -0,0 +1,230 @@
+/**
+ * Type checking for the @vsce/bundler package.
+ *
+ * Bundling only strips types, so an extension full of type errors bundles
+ * fine. The type check runs `deno check` on the entry point's module graph –
+ * with Deno's own resolution, compiler options and check cache – and parses
+ * its report into structured diagnostics. `vscode` is provided by the
+ * extension host and has no module to check against, so unless the project
+ * maps it, it is mapped to the `@typed/vscode` declarations for the check.
+ *
+ * Results are kept per file for the lifetime of the process: checking the
+ * same entry point again re-checks only the files that changed and the files
+ * importing them, and reuses the diagnostics of all others.
+ *
+ * @module
+ */
+
+import { fromFileUrl } from "@std/path";
+
+import type { TypeDiagnostic } from "../types.ts";
+import { type FileFingerprint, fingerprintFile } from "../hash/compute_hash.ts";
+import { findConfigFile, readImportMap } from "./config.ts";
+import type { GraphOptions, GraphSource } from "./graph.ts";
+
+/** Declarations `vscode` is checked against; matches the deno.json import. */
+const VSCODE_TYPES = "jsr:@typed/vscode@^1.101.0";
+
+/** Header of an error in `deno check` output, e.g. `TS2322 [ERROR]: …`. */
+const HEADER_RE = /^TS(\d+) \[ERROR\]: (.*)$/;
+
+/** Location closing an error, e.g. `    at file:///ext/a.ts:3:7`. */
+const LOCATION_RE = /^\s+at (\S+):(\d+):(\d+)$/;
+
+/** Marker line under the quoted source code of an error. */
+const MARKER_RE = /^\s*[~^]+\s*$/;
+
+/** Key of the errors that are not tied to a file. */
+const GLOBAL = "";
+
+/** The last check of an entry point. */
+interface CheckState {
+  /** Import map the check ran with, if one was generated. */
+  importMap: string | undefined;
+  /** Fingerprint per local module. */
+  files: Map<string, FileFingerprint>;
+  /** Errors per local module. */
+  diagnostics: Map<string, TypeDiagnostic[]>;
+}
+
+/** Last check per entry point, for the incremental re-check. */
+const checks = new Map<string, CheckState>();
+
+/**
+ * Type-check the module graph of `entry`.
+ *
+ * @param entry Absolute path to the entry point
+ * @param projectDir Directory used for config (`deno.json`) discovery
+ * @param graph Module graph of `entry`
+ * @param graphOptions How modules are resolved, e.g. offline
+ * @returns The type errors, ordered by file and position
+ * @throws {Error} If `deno check` fails without reporting type errors, e.g.
+ *                 because a module cannot be loaded
+ * @internal
+ */
+export async function checkTypes(
+  entry: string,
+  projectDir: string,
+  graph: GraphSource,
+  graphOptions: GraphOptions = {},
+): Promise<TypeDiagnostic[]> {
+  const importMap = await vscodeImportMap(projectDir);
+  const previous = checks.get(entry);
+  const reusable = previous?.importMap === importMap ? previous : undefined;
+
+  // Fingerprint the local modules and record who imports whom
+  const files = new Map<string, FileFingerprint>();
+  const importers = new Map<string, string[]>();
+  for (const module of (await graph()).modules) {
+    if (!module.specifier.startsWith("file:")) continue;
+    const path = module.local ?? fromFileUrl(module.specifier);
+    files.set(path, await fingerprintFile(path, reusable?.files.get(path)));
+    for (const { resolved } of module.dependencies) {
+      if (!resolved?.startsWith("file:")) continue;
+      const dependency = fromFileUrl(resolved);
+      importers.set(dependency, [...importers.get(dependency) ?? [], path]);
+    }
+  }
+
+  // Types flow from a module to its importers, so their errors may change too
+  const affected = new Set<string>();
+  const queue = [...files]
+    .filter(([path, { hash }]) => reusable?.files.get(path)?.hash !== hash)
+    .map(([path]) => path);
+  while (queue.length > 0) {
+    const path = queue.pop()!;
+    if (affected.has(path)) continue;
+    affected.add(path);
+    queue.push(...importers.get(path) ?? []);
+  }
+
+  const diagnostics = new Map<string, TypeDiagnostic[]>();
+  for (const [file, errors] of reusable?.diagnostics ?? []) {
+    if (files.has(file) && !affected.has(file)) diagnostics.set(file, errors);
+  }
+  if (affected.size > 0) {
+    const roots = reusable ? [...affected] : [entry];
+    const reported = await denoCheck(roots, projectDir, importMap, graphOptions);
+    for (const diagnostic of reported) {
+      const file = diagnostic.file ?? GLOBAL;
+      // Errors of unaffected modules were kept from the last check
+      if (files.has(file) && !affected.has(file)) continue;
+      diagnostics.set(file, [...diagnostics.get(file) ?? [], diagnostic]);
+    }
+  } else if (reusable?.diagnostics.has(GLOBAL)) {
+    diagnostics.set(GLOBAL, reusable.diagnostics.get(GLOBAL)!);
+  }
+  checks.set(entry, { importMap, files, diagnostics });
+
+  return [...diagnostics.values()].flat().sort((a, b) =>
+    (a.file ?? "").localeCompare(b.file ?? "") ||
+    (a.line ?? 0) - (b.line ?? 0) ||
+    (a.column ?? 0) - (b.column ?? 0)
+  );
+}
+
+/**
+ * Format a type error like `deno check`, e.g.
+ * `/ext/extension.ts:3:7 - TS2322: Type 'number' is not assignable to type 'string'.`
+ *
+ * @internal
+ */
+export function formatTypeDiagnostic(diagnostic: TypeDiagnostic): string {
+  const location = diagnostic.file === undefined
+    ? ""
+    : `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} - `;
+  return `${location}TS${diagnostic.code}: ${diagnostic.message}`;
+}
+
+/**
+ * The project's import map with `vscode` mapped to its declarations, or
+ * `undefined` when the project maps `vscode` itself.
+ */
+async function vscodeImportMap(
+  projectDir: string,
+): Promise<string | undefined> {
+  const configPath = await findConfigFile(projectDir);
+  const map = configPath
+    ? await readImportMap(configPath)
+    : { imports: {}, scopes: {} };
+  if ("vscode" in map.imports) return undefined;
+  return JSON.stringify({
+    imports: { ...map.imports, vscode: VSCODE_TYPES },
+    scopes: map.scopes,
+  });
+}
+
+/** Run `deno check` on `roots` and parse the reported errors. */
+async function denoCheck(
+  roots: readonly string[],
+  projectDir: string,
+  importMap: string | undefined,
+  graphOptions: GraphOptions,
+): Promise<TypeDiagnostic[]> {
+  const importMapPath = importMap === undefined
+    ? undefined
+    : await Deno.makeTempFile({ prefix: "vsce-bundler-", suffix: ".json" });
+  try {
+    if (importMapPath) await Deno.writeTextFile(importMapPath, importMap!);
+    const { success, stderr } = await new Deno.Command(Deno.execPath(), {
+      args: [
+        "check",
+        "--allow-import",
+        ...(graphOptions.offline ? ["--cached-only"] : []),
+        ...(importMapPath ? ["--import-map", importMapPath] : []),
+        ...roots,
+      ],
+      cwd: projectDir,
+      env: { NO_COLOR: "1" },
+      stdout: "null",
+      stderr: "piped",
+    }).output();
+    const output = new TextDecoder().decode(stderr);
+    const diagnostics = parseCheckOutput(output);
+    if (!success && diagnostics.length === 0) {
+      throw new Error(`Type check failed: ${output.trim()}`);
+    }
+    return diagnostics;
+  } finally {
+    if (importMapPath) await Deno.remove(importMapPath).catch(() => {});
+  }
+}
+
+/**
+ * Parse the errors reported by `deno check`: a `TS<code> [ERROR]:` header,
+ * further message lines, the quoted source line with a marker below it, and
+ * an `at <url>:<line>:<column>` location.
+ */
+function parseCheckOutput(output: string): TypeDiagnostic[] {
+  const lines = output.split("\n").map((line) => line.trimEnd());
+  const diagnostics: TypeDiagnostic[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i].match(HEADER_RE);
+    if (!header) continue;
+    const body: string[] = [];
+    let location: RegExpMatchArray | null = null;
+    for (i++; i < lines.length && lines[i] !== ""; i++) {
+      location = lines[i].match(LOCATION_RE);
+      if (location) break;
+      body.push(lines[i]);
+    }
+    const marker = body.findIndex((line) => MARKER_RE.test(line));
+    const message = [
+      header[2],
+      ...(marker > 0 ? body.slice(0, marker - 1) : body)
+        .filter((line) => !line.trimStart().startsWith("hint:")),
+    ].join("\n");
+    diagnostics.push({
+      code: Number(header[1]),
+      message,
+      ...(location && {
+        file: location[1].startsWith("file:")
+          ? fromFileUrl(location[1])
+          : location[1],
+        line: Number(location[2]),
+        column: Number(location[3]),
+      }),
+    });
+  }
+  return diagnostics;
+}
@@ -4,10 +4,32 @@
  * This module provides a static analysis utility that identifies potential issues
  * that would make a VS Code extension incompatible with the Web Extension runtime.
  * 
+ * Only code that actually ships is analyzed: the module graph is followed from
+ * the entry point through local files, remote (JSR/HTTPS) modules and npm
+ * packages, and each module is parsed rather than pattern-matched.
+ * 
  * @module
  */
-import { dirname } from "jsr:@std/path@^1.0.0";
-import { walk } from "jsr:@std/fs@^1.0.0/walk";
+import { dirname, extname, globToRegExp, isAbsolute, join, relative, resolve } from "@std/path";
+
+import type { CompatIssue, CompatOptions, CompatRuleSetting } from "../types.ts";
+import { findConfigFile, loadConfigFile } from "./config.ts";
+import { packageTarget } from "./esbuild.ts";
+import { formatCompatIssue } from "./format.ts";
+import {
+  type GraphNpmPackage,
+  type GraphSource,
+  loadModuleGraph,
+  type ModuleGraph,
+} from "./graph.ts";
+import { BUILTIN_SUGGESTIONS, COMPAT_RULES, NODE_GLOBAL_RULES, SYNC_XHR_SUGGESTION } from "./rules.ts";
+import {
+  type GlobalAccess,
+  isScannable,
+  type ModuleReference,
+  scanSource,
+  type SourcePosition,
+} from "./scan.ts";
 
 /** 
  * List of Node built-in modules that are not available in the web runtime.
@@ -23,70 +45,489 @@ const NODE_BUILTINS = [
 /** Set of Node.js built-in modules for faster lookups. */
 const BUILTIN_SET = new Set<string>(NODE_BUILTINS);
 
-/** RegEx to capture ES module import specifiers. */
-const IMPORT_RE = /import\s+(?:[^"']+?\s+from\s+)?["']([^"']+)["']/g;
+/** Node-only globals checked in extension and remote modules. */
+const NODE_GLOBALS = new Set(Object.keys(NODE_GLOBAL_RULES));
+
+/** Inline suppression comment, optionally followed by rule ids. */
+const IGNORE_COMMENT_RE = /^\s*\/\/\s*vsce-bundler-ignore-next-line\b(.*)$/;
 
-/** RegEx for detecting CommonJS style require calls. */
-const REQUIRE_RE = /require\(\s*["']([^"']+)["']\s*\)/g;
+/** Valid values of a rule setting. */
+const RULE_SETTINGS = new Set<CompatRuleSetting>(["off", "error", "warning", "info"]);
 
-/** RegEx to detect `Deno.` namespace usage (not available in web workers). */
-const DENO_NS_RE = /\bDeno\./g;
+/** Upper bound of files analyzed per npm package. */
+const MAX_NPM_PACKAGE_FILES = 500;
+
+/** Deno media types per file extension, for files inside npm packages. */
+const NPM_MEDIA_TYPES: Record<string, string> = {
+  ".js": "JavaScript",
+  ".mjs": "Mjs",
+  ".cjs": "Cjs",
+};
 
 /**
- * Validates that a VS Code extension is compatible with the Web Extension runtime.
+ * Name of the Node built-in module referenced by `specifier`, if any.
+ * Handles the `node:` prefix and subpaths such as `fs/promises`.
+ * @internal
+ */
+export function builtinModule(specifier: string): string | undefined {
+  const prefixed = specifier.startsWith("node:");
+  const name = (prefixed ? specifier.slice(5) : specifier).split("/")[0];
+  // Every `node:` specifier is a builtin, even ones not in NODE_BUILTINS
+  return prefixed || BUILTIN_SET.has(name) ? name : undefined;
+}
+
+/**
+ * Create the issue for a reference to a Node built-in module.
+ */
+function builtinIssue(
+  file: string,
+  reference: ModuleReference,
+  module: string,
+  importChain: string[],
+): CompatIssue {
+  const require = reference.kind === "require";
+  const ruleId = require ? "node-builtin-require" : "node-builtin-import";
+  return {
+    file,
+    line: reference.line,
+    column: reference.column,
+    ruleId,
+    severity: COMPAT_RULES[ruleId].severity,
+    message: `${require ? "requires" : "imports"} Node builtin module '${reference.specifier}'`,
+    specifier: reference.specifier,
+    suggestion: BUILTIN_SUGGESTIONS[module],
+    importChain,
+  };
+}
+
+/**
+ * Create the issue for an access on the `Deno` namespace.
+ */
+function denoIssue(
+  file: string,
+  position: SourcePosition,
+  importChain: string[],
+): CompatIssue {
+  return {
+    file,
+    line: position.line,
+    column: position.column,
+    ruleId: "deno-namespace",
+    severity: COMPAT_RULES["deno-namespace"].severity,
+    message: "uses 'Deno.*' APIs that are not available in web extensions",
+    specifier: "Deno",
+    importChain,
+  };
+}
+
+/**
+ * Create the issue for a reference to a Node-only global, or `undefined` if
+ * the rule for that global only covers other members.
+ */
+function globalIssue(
+  file: string,
+  access: GlobalAccess,
+  importChain: string[],
+): CompatIssue | undefined {
+  const rule = NODE_GLOBAL_RULES[access.name];
+  if (rule.member && access.member !== rule.member) return undefined;
+  const specifier = access.member ? `${access.name}.${access.member}` : access.name;
+  return {
+    file,
+    line: access.line,
+    column: access.column,
+    ruleId: rule.ruleId,
+    severity: COMPAT_RULES[rule.ruleId].severity,
+    message: `uses Node global '${specifier}' that is not available in web extensions`,
+    specifier,
+    suggestion: rule.suggestion,
+    importChain,
+  };
+}
+
+/**
+ * Create the issue for a synchronous `XMLHttpRequest`.
+ */
+function syncXhrIssue(
+  file: string,
+  position: SourcePosition,
+  importChain: string[],
+): CompatIssue {
+  return {
+    file,
+    line: position.line,
+    column: position.column,
+    ruleId: "sync-xhr",
+    severity: COMPAT_RULES["sync-xhr"].severity,
+    message: "performs a synchronous XMLHttpRequest",
+    specifier: "XMLHttpRequest",
+    suggestion: SYNC_XHR_SUGGESTION,
+    importChain,
+  };
+}
+
+/**
+ * Compute the shortest import chain from the graph root to every module,
+ * as a list of display names (paths for local files, specifiers otherwise).
+ */
+function importChains(graph: ModuleGraph): Map<string, string[]> {
+  const bySpecifier = new Map(graph.modules.map((m) => [m.specifier, m]));
+  const chains = new Map<string, string[]>();
+  const queue = [graph.root];
+  chains.set(graph.root, [displayName(graph.root, bySpecifier.get(graph.root)?.local)]);
+  while (queue.length > 0) {
+    const specifier = queue.shift()!;
+    for (const dep of bySpecifier.get(specifier)?.dependencies ?? []) {
+      if (!dep.resolved || chains.has(dep.resolved)) continue;
+      const module = bySpecifier.get(dep.resolved);
+      const name = module?.npmPackage
+        ? `npm:${module.npmPackage}`
+        : displayName(dep.resolved, module?.local);
+      chains.set(dep.resolved, [...chains.get(specifier)!, name]);
+      queue.push(dep.resolved);
+    }
+  }
+  return chains;
+}
+
+/** Local path for `file:` modules, the specifier for anything else. */
+function displayName(specifier: string, local: string | undefined): string {
+  return specifier.startsWith("file:") && local ? local : specifier;
+}
+
+/**
+ * Audit settings after merging the config file with programmatic options.
+ */
+interface CompatSettings {
+  rules: Record<string, CompatRuleSetting>;
+  allowModules: Set<string>;
+  allowFiles: RegExp[];
+  /** Directory `allowFiles` patterns are relative to. */
+  baseDir: string;
+}
+
+/**
+ * Merge the `bundler.compat` section of the project's config file with the
+ * programmatic options.
+ *
+ * @throws {Error} If a rule id or rule setting is unknown
+ */
+async function resolveSettings(
+  entryPoint: string,
+  options: CompatOptions,
+): Promise<CompatSettings> {
+  const configPath = options.configFile === false
+    ? undefined
+    : options.configFile ?? await findConfigFile(dirname(entryPoint));
+  const fromFile = configPath ? (await loadConfigFile(configPath)).bundler.compat ?? {} : {};
+
+  const rules = { ...fromFile.rules, ...options.rules };
+  for (const [id, setting] of Object.entries(rules)) {
+    const source = configPath && !(id in (options.rules ?? {})) ? ` in ${configPath}` : "";
+    if (!(id in COMPAT_RULES)) {
+      throw new Error(`Unknown web compatibility rule '${id}'${source}`);
+    }
+    if (!RULE_SETTINGS.has(setting)) {
+      throw new Error(`Invalid setting '${setting}' for rule '${id}'${source} (expected off, error, warning or info)`);
+    }
+  }
+
+  return {
+    rules,
+    allowModules: new Set([...fromFile.allowModules ?? [], ...options.allowModules ?? []]),
+    allowFiles: [...fromFile.allowFiles ?? [], ...options.allowFiles ?? []]
+      .map((glob) => globToRegExp(glob, { extended: true, globstar: true })),
+    baseDir: configPath ? dirname(configPath) : dirname(entryPoint),
+  };
+}
+
+/**
+ * Collect `// vsce-bundler-ignore-next-line [rule…]` suppressions, keyed by
+ * the 1-based line they apply to. A `null` value suppresses every rule.
+ */
+function ignoredLines(src: string): Map<number, Set<string> | null> {
+  const ignored = new Map<number, Set<string> | null>();
+  src.split("\n").forEach((text, index) => {
+    const match = text.match(IGNORE_COMMENT_RE);
+    if (!match) return;
+    const rules = match[1].split(/[\s,]+/).filter(Boolean);
+    ignored.set(index + 2, rules.length > 0 ? new Set(rules) : null);
+  });
+  return ignored;
+}
+
+/** npm package name of an `npm:name@version` import chain entry. */
+function npmPackageName(entry: string): string | undefined {
+  if (!entry.startsWith("npm:")) return undefined;
+  const spec = entry.slice(4).replace(/^\//, "");
+  const at = spec.lastIndexOf("@");
+  return at > 0 ? spec.slice(0, at) : spec;
+}
+
+/**
+ * Whether an issue concerns an allowlisted builtin, global or npm package.
+ */
+function isAllowedModule(issue: CompatIssue, allowModules: Set<string>): boolean {
+  if (allowModules.size === 0) return false;
+  const names = [
+    issue.specifier,
+    issue.specifier && builtinModule(issue.specifier),
+    issue.specifier?.split(".")[0],
+    ...(issue.importChain ?? []).map(npmPackageName),
+  ];
+  return names.some((name) => name !== undefined && allowModules.has(name));
+}
+
+/**
+ * Apply rule levels, allowlists and inline suppressions to the issues of a
+ * single file.
+ */
+function applySettings(
+  issues: CompatIssue[],
+  src: string,
+  settings: CompatSettings,
+): CompatIssue[] {
+  const ignored = ignoredLines(src);
+  return issues.flatMap((issue) => {
+    const level = settings.rules[issue.ruleId] ?? issue.severity;
+    if (level === "off") return [];
+    // Remote modules are reported by URL and never match file patterns
+    const path = isAbsolute(issue.file) ? relative(settings.baseDir, issue.file) : undefined;
+    if (path && settings.allowFiles.some((pattern) => pattern.test(path))) return [];
+    if (isAllowedModule(issue, settings.allowModules)) return [];
+    const suppressed = ignored.get(issue.line);
+    if (suppressed === null || suppressed?.has(issue.ruleId)) return [];
+    return [{ ...issue, severity: level }];
+  }).sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/** A parsed npm `package.json`, whose fields are checked before use. */
+type PackageManifest = Record<string, unknown>;
+
+/**
+ * Resolve the entry file of an npm package as the bundler does for the
+ * `webworker` target.
+ */
+function npmEntry(dir: string, manifest: PackageManifest): string {
+  return join(dir, packageTarget(manifest, undefined, "browser") ?? "index.js");
+}
+
+/** Whether `value` is a non-null, non-array object. */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolve a relative `require`/`import` inside an npm package to a file.
+ */
+async function resolvePackageFile(path: string): Promise<string | undefined> {
+  for (const candidate of [path, `${path}.js`, `${path}.cjs`, `${path}.mjs`, join(path, "index.js")]) {
+    try {
+      if ((await Deno.stat(candidate)).isFile) return candidate;
+    } catch {
+      /* try the next candidate */
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Analyze the files of an npm package reachable from its entry point, then
+ * its dependencies.
+ *
+ * Builtins the package maps to `false` in its `browser` field are skipped,
+ * since bundlers replace them with empty modules for browser targets.
+ */
+async function analyzeNpmPackage(
+  graph: ModuleGraph,
+  key: string,
+  importChain: string[],
+  visited: Set<string>,
+  settings: CompatSettings,
+  issues: CompatIssue[],
+): Promise<void> {
+  if (visited.has(key)) return;
+  visited.add(key);
+  const pkg: GraphNpmPackage | undefined = graph.npmPackages[key];
+  if (!pkg?.localPath) return;
+
+  let manifest: PackageManifest = {};
+  try {
+    const parsed: unknown = JSON.parse(await Deno.readTextFile(join(pkg.localPath, "package.json")));
+    if (isObject(parsed)) manifest = parsed;
+  } catch {
+    /* no manifest – fall back to index.js */
+  }
+  const browserMap = isObject(manifest.browser) ? manifest.browser : {};
+
+  const queue = [npmEntry(pkg.localPath, manifest)];
+  const seen = new Set<string>();
+  while (queue.length > 0 && seen.size < MAX_NPM_PACKAGE_FILES) {
+    const file = await resolvePackageFile(queue.shift()!);
+    if (!file || seen.has(file)) continue;
+    seen.add(file);
+    const mediaType = NPM_MEDIA_TYPES[extname(file)];
+    if (!mediaType) continue;
+
+    const src = await Deno.readTextFile(file);
+    const { references } = await scanSource(src, file, mediaType);
+    const fileIssues: CompatIssue[] = [];
+    for (const reference of references) {
+      const module = builtinModule(reference.specifier);
+      if (module) {
+        if (browserMap[reference.specifier] === false || browserMap[module] === false) continue;
+        fileIssues.push(builtinIssue(file, reference, module, [...importChain, file]));
+      } else if (reference.specifier.startsWith(".")) {
+        queue.push(resolve(dirname(file), reference.specifier));
+      }
+    }
+    issues.push(...applySettings(fileIssues, src, settings));
+  }
+
+  for (const dependency of pkg.dependencies) {
+    await analyzeNpmPackage(graph, dependency, [...importChain, `npm:${dependency}`], visited, settings, issues);
+  }
+}
+
+/**
+ * Analyzes a VS Code extension for compatibility with the Web Extension runtime.
+ * 
+ * This function follows the module graph from the entry point — local files,
+ * remote JSR/HTTPS modules and npm packages — and parses every reachable
+ * module to identify Node.js built-in module usage (including `node:`
+ * specifiers, subpaths such as `fs/promises`, re-exports, dynamic imports and
+ * `require` calls), Deno namespace calls, Node-only globals (`process`,
+ * `__dirname`, `__filename`, `Buffer`, `setImmediate`, `global`,
+ * `require.resolve`) and synchronous `XMLHttpRequest`s that would make an
+ * extension incompatible with the VS Code Web Extension runtime. Files that
+ * are not reachable from the entry point, such as tests, are never reported.
+ * Globals are only checked in the extension's own and remote modules, since
+ * npm packages commonly guard them at runtime.
  * 
- * This function performs static analysis to identify potential Node.js built-in
- * module usage or Deno namespace calls that would make an extension incompatible
- * with the VS Code Web Extension runtime.
+ * Rules can be configured, files and modules allowlisted and single lines
+ * suppressed with `// vsce-bundler-ignore-next-line <rule>` comments; see
+ * {@link CompatOptions}.
  * 
  * @param entryPoint The absolute path to the extension's entry point file
- * @returns An array of human-readable issues found in the project.
+ * @param options Rule configuration, merged over the `bundler.compat`
+ *                section of the project's `deno.json`
+ * @param graphOptions With `offline`, remote modules are resolved only from
+ *                     the Deno module cache and `vendor/`
+ * @returns The issues found in the project, each with the import chain that
+ *          pulls in the offending module.
  *          If the array is empty, the project appears to be web-compatible.
+ * @throws {Error} If the module graph of the entry point cannot be resolved
+ *                 or the rule configuration is invalid
  * 
- * @example Validating extension web compatibility
+ * @example Annotating web compatibility issues
  * ```ts
- * import { validateWebCompatibility } from "@vsce/bundler";
+ * import { analyzeWebCompatibility } from "@vsce/bundler";
  * 
- * const issues = await validateWebCompatibility("/path/to/extension/extension.ts");
+ * const issues = await analyzeWebCompatibility("/path/to/extension/extension.ts");
  * 
- * if (issues.length === 0) {
- *   console.log("✅ Extension is web compatible!");
- * } else {
- *   console.log("⚠️ Web compatibility issues found:");
- *   issues.forEach(issue => console.log(` - ${issue}`));
+ * for (const issue of issues) {
+ *   console.log(`${issue.file}:${issue.line}:${issue.column} [${issue.ruleId}] ${issue.message}`);
+ *   console.log(`  via ${issue.importChain?.join(" → ")}`);
  * }
  * ```
  */
-export async function validateWebCompatibility(entryPoint: string): Promise<string[]> {
-  const issues: string[] = [];
-  const root = dirname(entryPoint);
+export async function analyzeWebCompatibility(
+  entryPoint: string,
+  options: CompatOptions = {},
+  graphOptions: { offline?: boolean } = {},
+): Promise<CompatIssue[]> {
+  return await auditWebCompatibility(
+    entryPoint,
+    options,
+    () => loadModuleGraph(entryPoint, dirname(entryPoint), graphOptions),
+  );
+}
 
-  // Walk the project files with reasonable limits for performance
-  let count = 0;
-  for await (const entry of walk(root, { includeDirs: false, exts: [".ts", ".tsx"], maxDepth: 10 })) {
-    if (++count > 1000) break; // Safety limit - prevent analysis of huge projects
+/**
+ * {@link analyzeWebCompatibility} over the module graph provided by `source`,
+ * e.g. the graph a build shares between its phases.
+ *
+ * @internal
+ */
+export async function auditWebCompatibility(
+  entryPoint: string,
+  options: CompatOptions = {},
+  source: GraphSource,
+): Promise<CompatIssue[]> {
+  const settings = await resolveSettings(entryPoint, options);
+  const issues: CompatIssue[] = [];
+  const graph = await source();
+  const chains = importChains(graph);
+  const visitedPackages = new Set<string>();
 
-    const src = await Deno.readTextFile(entry.path);
+  for (const module of graph.modules) {
+    const chain = chains.get(module.specifier);
+    if (!chain) continue;
 
-    // Check ES module imports for Node.js built-ins
-    for (const [, specifier] of src.matchAll(IMPORT_RE)) {
-      if (BUILTIN_SET.has(specifier)) {
-        issues.push(`${entry.path}: imports Node builtin module '${specifier}'`);
-      }
+    if (module.npmPackage) {
+      await analyzeNpmPackage(graph, module.npmPackage, chain, visitedPackages, settings, issues);
+      continue;
     }
+    if (!module.local || !isScannable(module.mediaType)) continue;
 
-    // Check CommonJS requires (rare in TS projects, but still possible)
-    for (const [, specifier] of src.matchAll(REQUIRE_RE)) {
-      if (BUILTIN_SET.has(specifier)) {
-        issues.push(`${entry.path}: requires Node builtin module '${specifier}'`);
-      }
-    }
+    const file = displayName(module.specifier, module.local);
+    const src = await Deno.readTextFile(module.local);
+    const { references, denoAccesses, globalAccesses, syncXhrCalls } = await scanSource(
+      src,
+      module.local,
+      module.mediaType,
+      NODE_GLOBALS,
+    );
 
-    // Check for Deno namespace usage
-    if (DENO_NS_RE.test(src)) {
-      issues.push(`${entry.path}: uses 'Deno.*' APIs that are not available in web extensions`);
+    const fileIssues: CompatIssue[] = [];
+    for (const reference of references) {
+      const builtin = builtinModule(reference.specifier);
+      if (builtin) fileIssues.push(builtinIssue(file, reference, builtin, chain));
+    }
+    for (const access of denoAccesses) {
+      fileIssues.push(denoIssue(file, access, chain));
+    }
+    for (const access of globalAccesses) {
+      const issue = globalIssue(file, access, chain);
+      if (issue) fileIssues.push(issue);
+    }
+    for (const call of syncXhrCalls) {
+      fileIssues.push(syncXhrIssue(file, call, chain));
     }
+    issues.push(...applySettings(fileIssues, src, settings));
   }
 
   return issues;
 }
+
+/**
+ * Validates that a VS Code extension is compatible with the Web Extension runtime.
+ * 
+ * This is a string view over {@link analyzeWebCompatibility}: each issue is
+ * rendered as `<file>: <message>`.
+ * 
+ * @param entryPoint The absolute path to the extension's entry point file
+ * @param options Rule configuration, see {@link analyzeWebCompatibility}
+ * @returns An array of human-readable issues found in the project.
+ *          If the array is empty, the project appears to be web-compatible.
+ * 
+ * @example Validating extension web compatibility
+ * ```ts
+ * import { validateWebCompatibility } from "@vsce/bundler";
+ * 
+ * const issues = await validateWebCompatibility("/path/to/extension/extension.ts");
+ * 
+ * if (issues.length === 0) {
+ *   console.log("✅ Extension is web compatible!");
+ * } else {
+ *   console.log("⚠️ Web compatibility issues found:");
+ *   issues.forEach(issue => console.log(` - ${issue}`));
+ * }
+ * ```
+ */
+export async function validateWebCompatibility(
+  entryPoint: string,
+  options: CompatOptions = {},
+): Promise<string[]> {
+  return (await analyzeWebCompatibility(entryPoint, options)).map(formatCompatIssue);
+}
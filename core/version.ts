@@ -0,0 +1,13 @@
+/**
+ * Package version of @vsce/bundler, read from `deno.json`.
+ *
+ * @module
+ */
+
+import denoConfig from "../deno.json" with { type: "json" };
+
+/** Version of this package. */
+export const BUNDLER_VERSION: string = denoConfig.version;
+
+/** Package name of this package. */
+export const BUNDLER_NAME: string = denoConfig.name;
@@ -0,0 +1,188 @@
+/**
+ * Watch mode for the @vsce/bundler package.
+ *
+ * This module rebuilds a VS Code extension whenever its sources change. Each
+ * rebuild goes through the module-graph-based build cache, so changes to
+ * files outside the entry point's module graph are answered from cache and
+ * unchanged modules are never re-read.
+ *
+ * @module
+ */
+
+import { basename, dirname, relative, resolve } from "@std/path";
+
+import type { BundleResult, WatchHandle, WatchOptions } from "../types.ts";
+import { isSourceFile } from "../hash/compute_hash.ts";
+import { bundleExtension } from "./bundle.ts";
+import { manifestOutputs, readManifest } from "./manifest.ts";
+
+/** Whether `path` is a Deno lockfile. */
+const isLockfile = (path: string) => basename(path) === "deno.lock";
+
+/**
+ * The directories a build writes its bundles, cache record and reports to,
+ * relative to `projectDir`: `outDir`, or in manifest mode the directories of
+ * `main` and `browser`. The project directory itself is never included, so
+ * that a bundle next to the sources does not hide them.
+ */
+async function outputDirs(
+  projectDir: string,
+  options: WatchOptions,
+): Promise<string[]> {
+  if (!options.manifest) return [options.outDir ?? "out"];
+  let outputs;
+  try {
+    outputs = manifestOutputs(projectDir, await readManifest(projectDir));
+  } catch {
+    // The build fails on the manifest before writing anything
+    return [];
+  }
+  const dirs = outputs.map(({ path }) => relative(projectDir, dirname(path)));
+  return [...new Set(dirs)].filter((dir) => dir !== "");
+}
+
+/**
+ * Minimal unbounded async queue backing {@link WatchHandle.results}.
+ */
+class BuildQueue<T> implements AsyncIterable<T> {
+  #items: T[] = [];
+  #waiting: ((result: IteratorResult<T>) => void)[] = [];
+  #closed = false;
+
+  push(item: T): void {
+    if (this.#closed) return;
+    const resolve = this.#waiting.shift();
+    if (resolve) resolve({ value: item, done: false });
+    else this.#items.push(item);
+  }
+
+  close(): void {
+    this.#closed = true;
+    for (const resolve of this.#waiting.splice(0)) {
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      if (this.#items.length > 0) {
+        yield this.#items.shift()!;
+        continue;
+      }
+      if (this.#closed) return;
+      const next = await new Promise<IteratorResult<T>>((resolve) =>
+        this.#waiting.push(resolve)
+      );
+      if (next.done) return;
+      yield next.value;
+    }
+  }
+}
+
+/**
+ * Watch a VS Code extension project and rebuild it whenever its sources change.
+ *
+ * An initial build runs immediately. Afterwards, changes to source, JSON and
+ * lock files under `projectDir` (excluding the directories the build writes
+ * to: `outDir`, or the directories of `main` and `browser` in manifest mode)
+ * are collected
+ * until no further change arrives for `debounceMs`, then a single rebuild is
+ * started. Builds never overlap: changes arriving during a build schedule
+ * another one after it completes.
+ *
+ * @param options Bundle options plus watcher settings
+ * @returns A handle exposing the build results and a `stop` function
+ *
+ * @example Rebuilding on change
+ * ```ts
+ * import { watchExtension } from "@vsce/bundler";
+ *
+ * const watcher = watchExtension({
+ *   projectDir: "/path/to/extension",
+ *   debounceMs: 200,
+ * });
+ *
+ * for await (const build of watcher.results) {
+ *   if (build instanceof Error) {
+ *     console.error(`Build failed: ${build.message}`);
+ *   } else {
+ *     console.log(`Rebuilt in ${build.buildTimeMs}ms`);
+ *   }
+ * }
+ * ```
+ */
+export function watchExtension(options: WatchOptions): WatchHandle {
+  const { debounceMs = 100 } = options;
+  // Watcher events carry absolute paths
+  const projectDir = resolve(options.projectDir);
+
+  const results = new BuildQueue<BundleResult | Error>();
+  const watcher = Deno.watchFs(projectDir, { recursive: true });
+
+  let outDirs: string[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let building = false;
+  let rebuildQueued = false;
+  let stopped = false;
+
+  const build = async () => {
+    if (building) {
+      rebuildQueued = true;
+      return;
+    }
+    building = true;
+    try {
+      // Read before every build, since a changed package.json moves the outputs
+      outDirs = await outputDirs(projectDir, options);
+      results.push(await bundleExtension(options));
+    } catch (err) {
+      results.push(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      building = false;
+    }
+    if (stopped) {
+      results.close();
+    } else if (rebuildQueued) {
+      rebuildQueued = false;
+      void build();
+    }
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      void build();
+    }, debounceMs);
+  };
+
+  (async () => {
+    try {
+      for await (const event of watcher) {
+        const relevant = event.paths.some((path) =>
+          isSourceFile(path, projectDir, outDirs) || isLockfile(path)
+        );
+        if (relevant) schedule();
+      }
+    } catch {
+      /* watcher closed */
+    }
+  })();
+
+  void build();
+
+  return {
+    results,
+    stop() {
+      if (stopped) return;
+      stopped = true;
+      clearTimeout(timer);
+      try {
+        watcher.close();
+      } catch {
+        /* already closed */
+      }
+      if (!building) results.close();
+    },
+  };
+}
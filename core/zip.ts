@@ -0,0 +1,121 @@
+/**
+ * Minimal ZIP archive writer for the @vsce/bundler package.
+ *
+ * Writes the subset of the ZIP format that VSIX packages need: deflated (or
+ * stored) entries with UTF-8 names and a central directory. Timestamps are
+ * fixed so that packaging the same files twice yields identical archives.
+ *
+ * @module
+ */
+
+/**
+ * A file to add to an archive.
+ * @internal
+ */
+export interface ZipEntry {
+  /** Path inside the archive, using `/` separators. */
+  path: string;
+  /** File contents. */
+  data: Uint8Array;
+}
+
+/** DOS date of 1980-01-01 (year offset 0, month 1, day 1), the earliest date ZIP can represent. */
+const DOS_DATE = (1 << 5) | 1;
+
+/** General purpose flag: file names are UTF-8. */
+const UTF8_FLAG = 0x0800;
+
+/** Compression methods. */
+const STORED = 0;
+const DEFLATED = 8;
+
+let crcTable: Uint32Array | undefined;
+
+/** CRC-32 (IEEE) of `data`. */
+function crc32(data: Uint8Array): number {
+  crcTable ??= Uint32Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c;
+  });
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Raw-deflate `data` with the platform's CompressionStream. */
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream()
+    .pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Create a ZIP archive of `entries`, in the given order.
+ *
+ * @returns The archive bytes
+ * @internal
+ */
+export async function createZip(entries: readonly ZipEntry[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const crc = crc32(entry.data);
+    const deflated = await deflate(entry.data);
+    // Keep tiny or incompressible files stored
+    const method = deflated.length < entry.data.length ? DEFLATED : STORED;
+    const body = method === DEFLATED ? deflated : entry.data;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, 0, true);
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    chunks.push(new Uint8Array(local.buffer), name, body);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, method, true);
+    header.setUint16(12, 0, true);
+    header.setUint16(14, DOS_DATE, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, body.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + body.length;
+  }
+
+  const centralSize = central.reduce((size, chunk) => size + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const archive = new Uint8Array(offset + centralSize + 22);
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
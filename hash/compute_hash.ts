@@ -4,8 +4,23 @@
  * @module
  */
 
-import { join } from "@std/path";
-import { walk } from "@std/fs";
+import { isAbsolute, join, relative, SEPARATOR } from "@std/path";
+
+/** Files whose changes may affect the bundle. */
+const SOURCE_FILE_RE = /\.([cm]?[jt]sx?|json)$/;
+
+/**
+ * Content hash of a single file, together with the stat information used to
+ * skip re-reading it when it has not been touched.
+ */
+export interface FileFingerprint {
+  /** Hex-encoded SHA-256 of the content, or `null` if the file is missing. */
+  hash: string | null;
+  /** Modification time in milliseconds, or `null` if unavailable. */
+  mtime: number | null;
+  /** Size in bytes. */
+  size: number;
+}
 
 /** 
  * Compute a hex-encoded SHA-256 digest for arbitrary bytes.
@@ -22,21 +37,72 @@ export async function sha256Hex(data: Uint8Array): Promise<string> {
 }
 
 /**
- * Compute a project hash by hashing all `*.ts`, `*.tsx`, and `*.json` files
- * under `projectDir`, excluding the generated `outDir`.
+ * Whether `path` is a TypeScript, JavaScript or JSON file outside the
+ * generated `outDirs`, i.e. a file whose changes may affect the bundle.
+ *
+ * @internal
  */
-export async function computeProjectHash(
+export function isSourceFile(
+  path: string,
   projectDir: string,
-  outDir: string,
-): Promise<string> {
-  const outPath = join(projectDir, outDir);
-  const fileHashes: string[] = [];
-  for await (const entry of walk(projectDir, { includeDirs: false })) {
-    if (entry.path.startsWith(outPath)) continue;
-    if (!entry.path.match(/\.(ts|tsx|json)$/)) continue;
-    const content = await Deno.readFile(entry.path);
-    fileHashes.push(await sha256Hex(content));
+  outDirs: readonly string[],
+): boolean {
+  const inOutDir = outDirs.some((outDir) => {
+    const fromOutDir = relative(join(projectDir, outDir), path);
+    return fromOutDir !== ".." && !fromOutDir.startsWith(`..${SEPARATOR}`) &&
+      !isAbsolute(fromOutDir);
+  });
+  if (inOutDir) return false;
+  return SOURCE_FILE_RE.test(path);
+}
+
+/**
+ * Whether the file at `path` still matches `previous` by modification time
+ * and size, without reading its content.
+ *
+ * @internal
+ */
+export async function isUnchanged(
+  path: string,
+  previous: FileFingerprint,
+): Promise<boolean> {
+  try {
+    const info = await Deno.stat(path);
+    return previous.hash !== null && previous.mtime !== null &&
+      info.mtime?.getTime() === previous.mtime && info.size === previous.size;
+  } catch {
+    return previous.hash === null;
+  }
+}
+
+/**
+ * Fingerprint the file at `path`. The content is only read and hashed when
+ * the modification time or size differ from `previous`.
+ *
+ * @param path Absolute path of the file
+ * @param previous Fingerprint recorded by an earlier build, if any
+ * @internal
+ */
+export async function fingerprintFile(
+  path: string,
+  previous?: FileFingerprint,
+): Promise<FileFingerprint> {
+  let info: Deno.FileInfo;
+  try {
+    info = await Deno.stat(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) {
+      return { hash: null, mtime: null, size: 0 };
+    }
+    throw err;
+  }
+  const mtime = info.mtime?.getTime() ?? null;
+  if (
+    previous && previous.hash !== null && mtime !== null &&
+    previous.mtime === mtime && previous.size === info.size
+  ) {
+    return previous;
   }
-  const combined = new TextEncoder().encode(fileHashes.sort().join(""));
-  return sha256Hex(combined);
+  const hash = await sha256Hex(await Deno.readFile(path));
+  return { hash, mtime, size: info.size };
 }
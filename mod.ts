@@ -9,6 +9,11 @@
  */
 
 export {
+	/**
+	 * Analyzes a VS Code extension for Web Extension runtime incompatibilities
+	 * and reports structured issues with locations, rule ids and severities.
+	 */
+	analyzeWebCompatibility,
 	/**
 	 * Bundles a VS Code extension into a single JavaScript file suitable for use in
 	 * the VS Code Web Extension runtime.
@@ -27,13 +32,283 @@ export {
 	validateWebCompatibility,
 } from './core/bundle.ts';
 
+export {
+	/**
+	 * Formats a web compatibility issue as a single `<file>: <message>` line.
+	 */
+	formatCompatIssue,
+	/**
+	 * Serializes web compatibility issues as JSON.
+	 */
+	formatCompatIssuesJson,
+	/**
+	 * Serializes web compatibility issues as a SARIF 2.1.0 log.
+	 */
+	formatCompatIssuesSarif,
+} from './core/format.ts';
+
+export {
+	/**
+	 * Lints the extension manifest (package.json) against the commands, views
+	 * and settings the extension's code registers.
+	 */
+	analyzeManifest,
+} from './core/lint.ts';
+
+export {
+	/**
+	 * Thrown by bundleExtension when a bundle exceeds its size budget.
+	 */
+	BudgetExceededError,
+} from './core/budget.ts';
+
+export {
+	/**
+	 * Error of a failed build, with a stable code, the failed phase and the
+	 * location where known.
+	 */
+	BundleError,
+	/**
+	 * Thrown by bundleExtension when a plugin hook fails.
+	 */
+	PluginError,
+} from './core/errors.ts';
+
+export {
+	/**
+	 * Writes each build event as a line of JSON, for CI systems.
+	 */
+	ndjsonReporter,
+	/**
+	 * Prints build events as colored, human-readable lines.
+	 */
+	prettyReporter,
+	/**
+	 * Drops all build events.
+	 */
+	silentReporter,
+} from './core/reporters.ts';
+
+export {
+	/**
+	 * Packages a built VS Code extension as an installable .vsix file.
+	 */
+	packageExtension,
+} from './core/package.ts';
+
+export {
+	/**
+	 * Watches a VS Code extension project and rebuilds the bundle whenever its
+	 * sources change.
+	 */
+	watchExtension,
+} from './core/watch.ts';
+
 export type {
+	/**
+	 * Raw, gzip and brotli sizes in bytes of an analyzed build.
+	 */
+	AnalyzedSizeInfo,
+	/**
+	 * A bundle that exceeds a limit of its size budget.
+	 */
+	BudgetViolation,
+	/**
+	 * Build event: a build completed.
+	 */
+	BuildEndEvent,
+	/**
+	 * Event of a bundleExtension run, passed to its reporters.
+	 */
+	BuildEvent,
+	/**
+	 * Build event: a build failed.
+	 */
+	BuildFailedEvent,
+	/**
+	 * Build event: a message of the build.
+	 */
+	BuildMessageEvent,
+	/**
+	 * Level of a build message.
+	 */
+	BuildMessageLevel,
+	/**
+	 * Phase of bundleExtension, as timed by phase events and named by failed
+	 * builds.
+	 */
+	BuildPhase,
+	/**
+	 * Receives the events of a build.
+	 */
+	BuildReporter,
+	/**
+	 * Build event: a build started.
+	 */
+	BuildStartEvent,
+	/**
+	 * Size breakdown of a written bundle by module and package.
+	 */
+	BundleAnalysis,
+	/**
+	 * Stable code of a failed build.
+	 */
+	BundleErrorCode,
+	/**
+	 * Details of a BundleError.
+	 */
+	BundleErrorOptions,
 	/**
 	 * Options for bundling a VS Code extension.
 	 */
 	BundleOptions,
+	/**
+	 * A plugin hooking into the phases of bundleExtension.
+	 */
+	BundlePlugin,
 	/**
 	 * Result of a bundle operation containing metadata about the bundle.
 	 */
 	BundleResult,
+	/**
+	 * Extension host a bundle is built for.
+	 */
+	BundleTarget,
+	/**
+	 * Build event: the cache decision.
+	 */
+	CacheEvent,
+	/**
+	 * Reason a build could not be served from the incremental build cache.
+	 */
+	CacheMissReason,
+	/**
+	 * A single finding reported by the web compatibility audit.
+	 */
+	CompatIssue,
+	/**
+	 * Options for the web compatibility audit: rule levels, allowlists and the
+	 * config file to read them from.
+	 */
+	CompatOptions,
+	/**
+	 * Configured level of a validator rule.
+	 */
+	CompatRuleSetting,
+	/**
+	 * Severity of a web compatibility issue.
+	 */
+	CompatSeverity,
+	/**
+	 * Value of a compile-time define.
+	 */
+	DefineValue,
+	/**
+	 * How a build handles the lock of its output directory.
+	 */
+	LockPolicy,
+	/**
+	 * Options for the manifest linter.
+	 */
+	ManifestLintOptions,
+	/**
+	 * Origin of the code attributed to a module by the size analysis.
+	 */
+	ModuleKind,
+	/**
+	 * Bytes of a bundle attributed to one input module.
+	 */
+	ModuleSize,
+	/**
+	 * Change of a module's size in a bundle between two builds.
+	 */
+	ModuleSizeChange,
+	/**
+	 * Build event: a file written to the output directory.
+	 */
+	OutputEvent,
+	/**
+	 * A file included in a .vsix package.
+	 */
+	PackagedFile,
+	/**
+	 * Options for packaging a built extension as a .vsix file.
+	 */
+	PackageOptions,
+	/**
+	 * Result of packaging an extension.
+	 */
+	PackageResult,
+	/**
+	 * Bytes of a bundle attributed to one package.
+	 */
+	PackageSize,
+	/**
+	 * Build event: a build phase ended.
+	 */
+	PhaseEndEvent,
+	/**
+	 * Build event: a build phase started.
+	 */
+	PhaseStartEvent,
+	/**
+	 * Services available to plugin hooks.
+	 */
+	PluginContext,
+	/**
+	 * A bundle of the build, as passed to plugin hooks.
+	 */
+	PluginOutput,
+	/**
+	 * Result of a transforming plugin hook.
+	 */
+	PluginTransformResult,
+	/**
+	 * Options for the pretty build reporter.
+	 */
+	PrettyReporterOptions,
+	/**
+	 * Options for rendering web compatibility issues as SARIF.
+	 */
+	SarifOptions,
+	/**
+	 * Size limits for each bundle.
+	 */
+	SizeBudget,
+	/**
+	 * Size of a bundle compared with the previous build.
+	 */
+	SizeComparison,
+	/**
+	 * Raw and gzip sizes in bytes.
+	 */
+	SizeInfo,
+	/**
+	 * How bundleExtension writes source maps.
+	 */
+	SourceMapMode,
+	/**
+	 * Bundle path and size of a single build target.
+	 */
+	TargetResult,
+	/**
+	 * How bundleExtension enforces the type check.
+	 */
+	TypeCheckMode,
+	/**
+	 * A type error reported by the type check.
+	 */
+	TypeDiagnostic,
+	/**
+	 * How bundleExtension enforces web compatibility.
+	 */
+	ValidateMode,
+	/**
+	 * Handle to a running watcher returned by watchExtension.
+	 */
+	WatchHandle,
+	/**
+	 * Options for watching and rebuilding a VS Code extension.
+	 */
+	WatchOptions,
 } from './types.ts';
@@ -2,12 +2,23 @@
  * @fileoverview Tests for the VSC extension bundler
  */
 
-import { assertEquals, assertNotEquals, assertRejects } from "jsr:@std/assert";
+import { assertEquals, assertNotEquals, assertRejects, assertStringIncludes } from "jsr:@std/assert";
 import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
-import { join } from "jsr:@std/path";
+import { fromFileUrl, join, relative, toFileUrl } from "jsr:@std/path";
 import { ensureDir } from "jsr:@std/fs";
 
-import { bundleExtension } from "../mod.ts";
+import {
+  BudgetExceededError,
+  BundleError,
+  bundleExtension,
+  type BuildEvent,
+  type BundleOptions,
+  type BundlePlugin,
+  ndjsonReporter,
+  PluginError,
+  type SizeBudget,
+  watchExtension,
+} from "../mod.ts";
 
 // Mock fs test helpers
 const TEST_DIR = join(Deno.makeTempDirSync(), "bundler-test");
@@ -18,6 +29,59 @@ const OUT_PATH = join(TEST_PROJECT_DIR, OUT_DIR);
 const ENTRY_FILE = "extension.ts";
 const OUT_FILE = "extension.js";
 
+/**
+ * Source index and original line (zero-based) of the mapping covering a
+ * generated position, decoded from Source Map v3 `mappings`.
+ */
+function originalPosition(mappings: string, line: number, column: number): number[] {
+  const digits = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+  const state = [0, 0, 0, 0, 0];
+  let found: number[] = [];
+  mappings.split(";").forEach((text, index) => {
+    state[0] = 0;
+    for (const segment of text.split(",").filter(Boolean)) {
+      let value = 0;
+      let shift = 0;
+      let field = 0;
+      for (const char of segment) {
+        const digit = digits.indexOf(char);
+        value += (digit & 31) << shift;
+        shift += 5;
+        if (digit & 32) continue;
+        state[field++] += value & 1 ? -(value >> 1) : value >> 1;
+        value = shift = 0;
+      }
+      if (index === line && state[0] <= column) found = [state[1], state[2]];
+    }
+  });
+  return found;
+}
+
+/**
+ * Gzipped tarball of an npm package, with `files` under `package/`.
+ */
+async function npmTarball(files: Record<string, string>): Promise<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder();
+  const blocks: Uint8Array<ArrayBuffer>[] = [];
+  for (const [name, text] of Object.entries(files)) {
+    const data = encoder.encode(text);
+    const header = new Uint8Array(512);
+    const field = (offset: number, value: string) => header.set(encoder.encode(value), offset);
+    field(0, `package/${name}`);
+    field(100, "0000644\0");
+    field(124, `${data.length.toString(8).padStart(11, "0")}\0`);
+    field(136, "00000000000\0");
+    field(148, " ".repeat(8));
+    field(156, "0");
+    field(257, "ustar\u000000");
+    field(148, `${header.reduce((sum, byte) => sum + byte, 0).toString(8).padStart(6, "0")}\0 `);
+    blocks.push(header, data, new Uint8Array((512 - data.length % 512) % 512));
+  }
+  blocks.push(new Uint8Array(1024));
+  const gzip = new Blob(blocks).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(gzip).arrayBuffer());
+}
+
 
 
 // Setup test environment
@@ -194,6 +258,104 @@ describe("bundleExtension", () => {
     assertEquals(cacheMessageFound, true);
   });
 
+  it("should rebuild when an output-affecting option changes", async () => {
+    await bundleExtension({ projectDir: TEST_PROJECT_DIR, bundleFn: fakeBundle });
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      outFile: "renamed.js",
+      bundleFn: fakeBundle,
+    });
+
+    assertEquals(result.fromCache, false);
+    assertEquals(result.cacheMissReason, "options-changed");
+  });
+
+  it("should rebuild when the cached output was modified", async () => {
+    const first = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      bundleFn: fakeBundle,
+    });
+    await Deno.writeTextFile(first.bundlePath, "// tampered");
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      bundleFn: fakeBundle,
+    });
+
+    assertEquals(result.fromCache, false);
+    assertEquals(result.cacheMissReason, "output-modified");
+  });
+
+  it("should ignore changes to files outside the module graph", async () => {
+    await bundleExtension({ projectDir: TEST_PROJECT_DIR, bundleFn: fakeBundle });
+    await ensureDir(join(TEST_PROJECT_DIR, "docs"));
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, "docs", "data.json"), "{}");
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      bundleFn: fakeBundle,
+    });
+
+    assertEquals(result.fromCache, true);
+  });
+
+  it("should rebuild when a module imported by the entry point changes", async () => {
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, "util.ts"), "export const x = 1;");
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, ENTRY_FILE),
+      `import { x } from "./util.ts";\nexport function activate() { console.log(x); }`,
+    );
+    await bundleExtension({ projectDir: TEST_PROJECT_DIR, bundleFn: fakeBundle });
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, "util.ts"), "export const x = 42;");
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      bundleFn: fakeBundle,
+    });
+
+    assertEquals(result.fromCache, false);
+    assertEquals(result.cacheMissReason, "sources-changed");
+  });
+
+  it("should rebuild when a deno.json in a parent directory changes", async () => {
+    const parentConfig = join(FIXTURES_DIR, "deno.json");
+    const build = () => bundleExtension({ projectDir: TEST_PROJECT_DIR, bundleFn: fakeBundle });
+    await build();
+
+    await Deno.writeTextFile(parentConfig, JSON.stringify({ imports: {} }));
+    assertEquals((await build()).cacheMissReason, "sources-changed");
+    assertEquals((await build()).fromCache, true);
+
+    await Deno.writeTextFile(parentConfig, JSON.stringify({ imports: { "#lib/": "./lib/" } }));
+    assertEquals((await build()).cacheMissReason, "sources-changed");
+  });
+
+  it("should rebuild when only the lockfile of a parent deno.json changes", async () => {
+    const parentLock = join(FIXTURES_DIR, "deno.lock");
+    await Deno.writeTextFile(join(FIXTURES_DIR, "deno.json"), "{}");
+    await Deno.writeTextFile(parentLock, JSON.stringify({ version: "4", remote: {} }));
+    const build = () => bundleExtension({ projectDir: TEST_PROJECT_DIR, bundleFn: fakeBundle });
+    await build();
+    assertEquals((await build()).fromCache, true);
+
+    await Deno.writeTextFile(parentLock, JSON.stringify({ version: "4", remote: { "https://deno.land/x/a.ts": "0" } }));
+
+    assertEquals((await build()).cacheMissReason, "lockfile-changed");
+  });
+
+  it("should rebuild when the lockfile changes", async () => {
+    await bundleExtension({ projectDir: TEST_PROJECT_DIR, bundleFn: fakeBundle });
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, "deno.lock"), "{}");
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      bundleFn: fakeBundle,
+    });
+
+    assertEquals(result.cacheMissReason, "lockfile-changed");
+  });
+
   it("should rebuild when cache is disabled", async () => {
     // First build to prime cache
     await bundleExtension({
@@ -214,6 +376,919 @@ describe("bundleExtension", () => {
     assertNotEquals(result.buildTimeMs, 0);
   });
 
+  it("should report web compatibility issues in warn mode", async () => {
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, ENTRY_FILE),
+      `import { readFileSync } from "fs";\nexport function activate() {}\n`,
+    );
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      validate: "warn",
+      quiet: true,
+      bundleFn: fakeBundle,
+    });
+
+    assertEquals(result.diagnostics?.map((issue) => issue.ruleId), ["node-builtin-import"]);
+    assertEquals(result.messages.length, 1);
+    assertEquals((await Deno.stat(result.bundlePath)).isFile, true);
+
+    const cached = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      validate: "warn",
+      quiet: true,
+      bundleFn: fakeBundle,
+    });
+
+    assertEquals(cached.fromCache, true);
+    assertEquals(cached.diagnostics, result.diagnostics);
+  });
+
+  it("should fail before writing output in error mode", async () => {
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, ENTRY_FILE),
+      `import { readFileSync } from "fs";\nexport function activate() {}\n`,
+    );
+    const errors: string[] = [];
+
+    await assertRejects(
+      () =>
+        bundleExtension({
+          projectDir: TEST_PROJECT_DIR,
+          validate: "error",
+          logError: (msg) => errors.push(msg),
+          bundleFn: fakeBundle,
+        }),
+      Error,
+      "Web compatibility audit failed with 1 error(s)",
+    );
+    assertEquals(errors[0].includes("imports Node builtin module 'fs'"), true);
+    await assertRejects(() => Deno.stat(join(OUT_PATH, OUT_FILE)), Deno.errors.NotFound);
+  });
+
+  it("should write one CommonJS bundle per target", async () => {
+    const esmBundle: typeof import("jsr:@deno/emit").bundle = () =>
+      Promise.resolve({
+        code: `import { window } from "vscode";\nexport function activate() { window.showInformationMessage("hi"); }\n`,
+        map: "{}",
+      });
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      targets: ["node", "webworker"],
+      quiet: true,
+      bundleFn: esmBundle,
+    });
+
+    assertEquals(result.targets?.node?.bundlePath, join(OUT_PATH, "node", OUT_FILE));
+    assertEquals(result.targets?.webworker?.bundlePath, join(OUT_PATH, "webworker", OUT_FILE));
+    assertEquals(result.bundlePath, result.targets?.node?.bundlePath);
+    for (const { bundlePath, size } of Object.values(result.targets ?? {})) {
+      assertEquals((await Deno.stat(bundlePath)).size, size);
+      const module = { exports: {} as Record<string, unknown> };
+      new Function("module", "exports", "require", await Deno.readTextFile(bundlePath))(
+        module,
+        module.exports,
+        () => ({ window: {} }),
+      );
+      assertEquals(typeof module.exports.activate, "function");
+    }
+
+    const cached = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      targets: ["node", "webworker"],
+      quiet: true,
+      bundleFn: esmBundle,
+    });
+    assertEquals(cached.fromCache, true);
+    assertEquals(cached.targets, result.targets);
+  });
+
+  it("should reject Node built-ins in the webworker target", async () => {
+    const nodeBundle: typeof import("jsr:@deno/emit").bundle = () =>
+      Promise.resolve({ code: `import fs from "node:fs";\nexport const activate = () => fs;\n`, map: "{}" });
+
+    await assertRejects(
+      () =>
+        bundleExtension({
+          projectDir: TEST_PROJECT_DIR,
+          targets: ["webworker"],
+          logError: () => {},
+          bundleFn: nodeBundle,
+        }),
+      Error,
+      "The webworker bundle imports 'node:fs'",
+    );
+  });
+
+  it("should keep externals as runtime imports", async () => {
+    const placeholder = "https://external.vsce-bundler.invalid/vscode";
+    const emitBundle: typeof import("jsr:@deno/emit").bundle = async (_root, options) => {
+      const importMap = options?.importMap as { imports: Record<string, string> };
+      assertEquals(importMap.imports.vscode, placeholder);
+      assertEquals(await options?.load?.(placeholder), { kind: "external", specifier: placeholder });
+      await assertRejects(
+        async () => await options?.load?.("npm:/vscode@1.1.37/lib/index.js"),
+        Error,
+        "External module 'vscode' was resolved to npm:/vscode@1.1.37/lib/index.js",
+      );
+      return { code: `import { commands } from "${placeholder}";\nexport const activate = () => commands;\n`, map: "{}" };
+    };
+
+    const result = await bundleExtension({ projectDir: TEST_PROJECT_DIR, quiet: true, bundleFn: emitBundle });
+
+    assertEquals(
+      await Deno.readTextFile(result.bundlePath),
+      `import { commands } from "vscode";\nexport const activate = () => commands;\n`,
+    );
+  });
+
+  it("should build the bundles declared in package.json in manifest mode", async () => {
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "package.json"),
+      JSON.stringify({
+        name: "test-extension",
+        engines: { vscode: "^1.60.0" },
+        main: "./dist/node/extension",
+        browser: "./dist/web/extension.js",
+      }),
+    );
+    const esmBundle: typeof import("jsr:@deno/emit").bundle = () =>
+      Promise.resolve({ code: `let state;\nexport function activate() { state ??= {}; }\n`, map: "{}" });
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      manifest: true,
+      quiet: true,
+      bundleFn: esmBundle,
+    });
+
+    assertEquals(result.targets?.node?.bundlePath, join(TEST_PROJECT_DIR, "dist", "node", "extension.js"));
+    assertEquals(result.targets?.webworker?.bundlePath, join(TEST_PROJECT_DIR, "dist", "web", "extension.js"));
+    // VS Code 1.60 runs Node 14, which lacks logical assignment operators
+    assertEquals((await Deno.readTextFile(result.targets!.node!.bundlePath)).includes("??="), false);
+    assertEquals(result.messages, []);
+  });
+
+  it("should reject a manifest pointing at TypeScript sources", async () => {
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "package.json"),
+      JSON.stringify({ name: "test-extension", main: "./extension.ts" }),
+    );
+
+    await assertRejects(
+      () => bundleExtension({ projectDir: TEST_PROJECT_DIR, manifest: true, bundleFn: fakeBundle }),
+      Error,
+      `package.json "main" must point at the JavaScript bundle, not ./extension.ts`,
+    );
+  });
+
+  it("should leave package.json alone without manifest mode", async () => {
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      outFile: "bundle.js",
+      quiet: true,
+      bundleFn: fakeBundle,
+    });
+
+    // "main" points at out/extension.js, which this build does not write
+    assertEquals(result.messages, []);
+  });
+
+  it("should fail before caching when package.json does not point at the bundles", async () => {
+    const options = {
+      projectDir: TEST_PROJECT_DIR,
+      targets: ["node"] as const,
+      verifyManifest: true,
+      logError: () => {},
+      bundleFn: fakeBundle,
+    };
+
+    const error = await assertRejects(() => bundleExtension(options), BundleError);
+    assertEquals(
+      [error.code, error.phase, error.file],
+      ["MANIFEST_INVALID", "verify", join(TEST_PROJECT_DIR, "package.json")],
+    );
+    assertEquals(
+      error.message,
+      `package.json "main" points at ./out/extension.js, but the node bundle is written to ${
+        join("out", "node", OUT_FILE)
+      }`,
+    );
+
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "package.json"),
+      JSON.stringify({ name: "test-extension", main: "./out/node/extension" }),
+    );
+    const result = await bundleExtension({ ...options, quiet: true });
+    assertEquals(result.cacheMissReason, "no-cache");
+  });
+
+  it("should chain source maps back to the TypeScript sources", async () => {
+    const entryUrl = new URL(`file://${join(TEST_PROJECT_DIR, ENTRY_FILE)}`).href;
+    const code = `const greeting = "hi";\nexport function activate() {\n  throw new Error(greeting);\n}\n`;
+    // Each emitted line maps to the source ten lines further down
+    const mappedBundle: typeof import("jsr:@deno/emit").bundle = () =>
+      Promise.resolve({
+        code,
+        map: JSON.stringify({ version: 3, sources: [entryUrl], names: [], mappings: "AAUA;AACA;AACA;AACA" }),
+      });
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      targets: ["node"],
+      minify: true,
+      sourcesContent: true,
+      quiet: true,
+      bundleFn: mappedBundle,
+    });
+
+    const bundlePath = result.targets!.node!.bundlePath;
+    const bundle = await Deno.readTextFile(bundlePath);
+    assertStringIncludes(bundle, "//# sourceMappingURL=extension.js.map");
+    const map = JSON.parse(await Deno.readTextFile(`${bundlePath}.map`));
+    assertEquals(map.sources, ["../../extension.ts"]);
+    assertEquals(map.sourcesContent, [await Deno.readTextFile(join(TEST_PROJECT_DIR, ENTRY_FILE))]);
+
+    const lines = bundle.split("\n");
+    const line = lines.findIndex((text) => text.includes("throw"));
+    const [source, originalLine] = originalPosition(map.mappings, line, lines[line].indexOf("throw"));
+    assertEquals([source, originalLine], [0, 12]);
+  });
+
+  it("should inline, hide or omit source maps as requested", async () => {
+    const build = (sourcemap?: "inline" | "hidden") =>
+      bundleExtension({
+        projectDir: TEST_PROJECT_DIR,
+        sourcemap,
+        useCache: false,
+        quiet: true,
+        bundleFn: () =>
+          Promise.resolve({
+            code: "export const activate = () => {};\n",
+            map: JSON.stringify({ version: 3, sources: ["file:///src/extension.ts"], names: [], mappings: "AAAA" }),
+          }),
+      });
+    const mapPath = join(OUT_PATH, `${OUT_FILE}.map`);
+
+    const inline = await build("inline");
+    assertStringIncludes(await Deno.readTextFile(inline.bundlePath), "//# sourceMappingURL=data:application/json;base64,");
+    await assertRejects(() => Deno.stat(mapPath), Deno.errors.NotFound);
+
+    const hidden = await build("hidden");
+    assertEquals((await Deno.readTextFile(hidden.bundlePath)).includes("sourceMappingURL"), false);
+    assertEquals(JSON.parse(await Deno.readTextFile(mapPath)).sources, [relative(OUT_PATH, "/src/extension.ts")]);
+
+    await Deno.remove(mapPath);
+    const none = await build();
+    assertEquals((await Deno.readTextFile(none.bundlePath)).includes("sourceMappingURL"), false);
+    await assertRejects(() => Deno.stat(mapPath), Deno.errors.NotFound);
+  });
+
+  it("should attribute bundle bytes to modules and packages", async () => {
+    const entryUrl = new URL(`file://${join(TEST_PROJECT_DIR, ENTRY_FILE)}`).href;
+    const dependency = "https://jsr.io/@std/path/1.0.8/join.ts";
+    const npmDependency = "file:///home/user/.cache/deno/npm/registry.npmjs.org/@preact/signals/1.3.0/dist/signals.mjs";
+    const code =
+      `function join(a, b) {\n  return a + "/" + b;\n}\nexport const activate = () => join("a", "b");\nconst signal = (value) => ({ value });\n`;
+    const mappedBundle: typeof import("jsr:@deno/emit").bundle = () =>
+      Promise.resolve({
+        code,
+        map: JSON.stringify({
+          version: 3,
+          sources: [dependency, entryUrl, npmDependency],
+          names: [],
+          mappings: "AAAA;AACA;AACA;ACAA;ACAA",
+        }),
+      });
+    const build = () => bundleExtension({ projectDir: TEST_PROJECT_DIR, analyze: true, quiet: true, bundleFn: mappedBundle });
+
+    const result = await build();
+
+    const [analysis] = result.analysis!;
+    assertEquals(analysis.raw, code.length);
+    assertEquals(analysis.modules.map(({ module, kind, package: pkg, raw }) => [module, kind, pkg, raw]), [
+      [dependency, "remote", "jsr:@std/path@1.0.8", 46],
+      [ENTRY_FILE, "local", undefined, 46],
+      [relative(TEST_PROJECT_DIR, fromFileUrl(npmDependency)), "remote", "npm:@preact/signals@1.3.0", 39],
+    ]);
+    assertEquals(analysis.packages.map(({ name, modules }) => [name, modules]), [
+      ["jsr:@std/path@1.0.8", 1],
+      ["(local)", 1],
+      ["npm:@preact/signals@1.3.0", 1],
+    ]);
+    assertEquals(analysis.modules.every((module) => module.gzip > 0 && module.brotli > 0), true);
+    const report = JSON.parse(await Deno.readTextFile(join(OUT_PATH, "bundle-report.json")));
+    assertEquals(report.bundles, result.analysis);
+    assertStringIncludes(await Deno.readTextFile(join(OUT_PATH, "bundle-report.html")), "jsr:@std/path@1.0.8");
+
+    const cached = await build();
+    assertEquals(cached.fromCache, true);
+    assertEquals(cached.analysis, result.analysis);
+  });
+
+  it("should report size changes and fail builds over budget", async () => {
+    const build = (code: string, budget?: SizeBudget) =>
+      bundleExtension({
+        projectDir: TEST_PROJECT_DIR,
+        useCache: false,
+        budget,
+        quiet: true,
+        bundleFn: () => Promise.resolve({ code, map: "{}" }),
+      });
+    const small = "export const activate = () => 1;\n";
+    const large = `export const activate = () => "${"x".repeat(small.length)}";\n`;
+
+    const first = await build(small);
+    assertEquals(Object.keys(first.sizes![0].current), ["raw", "gzip"]);
+    assertEquals(first.sizes?.[0].current.raw, small.length);
+    assertEquals(first.sizes?.[0].previous, undefined);
+
+    const error = await assertRejects(
+      () => build(large, { maxSize: 64, maxGrowthPercent: 50 }),
+      BudgetExceededError,
+      "Bundle size budget exceeded",
+    );
+    assertEquals([error.code, error.phase, error.file], ["BUDGET_EXCEEDED", "verify", join(OUT_PATH, OUT_FILE)]);
+    assertEquals(error.violations.map(({ budget, limit, actual }) => [budget, limit, actual]), [
+      ["maxSize", 64, large.length],
+      ["maxGrowthPercent", 50, Math.round(((large.length - small.length) / small.length) * 10000) / 100],
+    ]);
+
+    // The failed build did not replace the baseline
+    const second = await build(large);
+    assertEquals(second.sizes?.[0].previous?.raw, small.length);
+    assertEquals(second.sizes?.[0].current.raw, large.length);
+  });
+
+  it("should substitute defines and drop unreachable branches", async () => {
+    const code = [
+      `if (__DEV__) console.log("dev diagnostics");`,
+      `export const channel = BUILD_CHANNEL;`,
+      `export const production = process.env.NODE_ENV === "production";`,
+    ].join("\n");
+    const define = { __DEV__: false, BUILD_CHANNEL: '"insiders"', "process.env.NODE_ENV": '"production"' };
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      define,
+      quiet: true,
+      bundleFn: () => Promise.resolve({ code, map: "{}" }),
+    });
+
+    const bundle = await Deno.readTextFile(result.bundlePath);
+    assertEquals(bundle.includes("dev diagnostics"), false);
+    assertStringIncludes(bundle, `channel = "insiders"`);
+    assertEquals(bundle.includes("process.env"), false);
+    assertEquals(result.defines, { BUILD_CHANNEL: '"insiders"', __DEV__: "false", "process.env.NODE_ENV": '"production"' });
+  });
+
+  it("should reject an invalid define", async () => {
+    await assertRejects(
+      () => bundleExtension({ projectDir: TEST_PROJECT_DIR, define: { "not-a-name": "1" }, quiet: true, bundleFn: fakeBundle }),
+      Error,
+      `Invalid define: The define key "not-a-name" must be a valid identifier`,
+    );
+  });
+
+  it("should run plugin hooks in order and track emitted assets", async () => {
+    const calls: string[] = [];
+    const plugin: BundlePlugin = {
+      name: "banner",
+      cacheKey: "v1",
+      resolveEntry: () => void calls.push("resolveEntry"),
+      beforeBundle: () => void calls.push("beforeBundle"),
+      transform: (code) => {
+        calls.push("transform");
+        return code.replace("Hello", "Hi");
+      },
+      beforeMinify: (code, output, context) => {
+        calls.push(`beforeMinify ${output.target}`);
+        context.addMessage(`banner added to ${output.file}`);
+        return `/*! banner */\n${code}`;
+      },
+      afterWrite: async (outputs, context) => {
+        calls.push("afterWrite");
+        await context.emitAsset("meta/files.json", JSON.stringify(outputs.map(({ file }) => file)));
+      },
+      cacheHit: () => void calls.push("cacheHit"),
+    };
+    const build = () =>
+      bundleExtension({
+        projectDir: TEST_PROJECT_DIR,
+        targets: ["node", "webworker"],
+        plugins: [plugin],
+        quiet: true,
+        bundleFn: () => Promise.resolve({ code: `console.log("Hello");`, map: "{}" }),
+      });
+
+    const result = await build();
+    assertEquals(calls, [
+      "resolveEntry",
+      "beforeBundle",
+      "transform",
+      "beforeMinify node",
+      "beforeMinify webworker",
+      "afterWrite",
+    ]);
+    const bundle = await Deno.readTextFile(result.targets!.node!.bundlePath);
+    assertEquals(bundle.startsWith("/*! banner */"), true);
+    assertStringIncludes(bundle, `console.log("Hi")`);
+    assertStringIncludes(result.messages.join("\n"), "banner added to node/extension.js");
+    const asset = join(OUT_PATH, "meta", "files.json");
+    assertEquals(result.assets, [asset]);
+    assertEquals(JSON.parse(await Deno.readTextFile(asset)), ["node/extension.js", "webworker/extension.js"]);
+
+    calls.length = 0;
+    const cached = await build();
+    assertEquals(cached.fromCache, true);
+    assertEquals(calls, ["resolveEntry", "cacheHit"]);
+
+    // A deleted asset is missing output, like a deleted bundle
+    await Deno.remove(asset);
+    assertEquals((await build()).cacheMissReason, "output-missing");
+  });
+
+  it("should name the plugin that failed", async () => {
+    const failing: BundlePlugin = {
+      name: "broken",
+      transform: () => {
+        throw new Error("unexpected token");
+      },
+    };
+    const error = await assertRejects(
+      () => bundleExtension({ projectDir: TEST_PROJECT_DIR, plugins: [failing], quiet: true, bundleFn: fakeBundle }),
+      PluginError,
+      "Plugin 'broken' failed in transform: unexpected token",
+    );
+    assertEquals([error.code, error.phase, error.plugin, error.hook], ["PLUGIN_FAILED", "transform", "broken", "transform"]);
+
+    const escaping: BundlePlugin = {
+      name: "escaping",
+      afterWrite: (_outputs, context) => context.emitAsset("../outside.txt", "").then(() => {}),
+    };
+    await assertRejects(
+      () => bundleExtension({ projectDir: TEST_PROJECT_DIR, plugins: [escaping], quiet: true, bundleFn: fakeBundle }),
+      Error,
+      "Asset '../outside.txt' must be a path inside the output directory",
+    );
+  });
+
+  it("should bundle with esbuild through the Deno module graph", async () => {
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "deno.json"),
+      JSON.stringify({ imports: { "#greeting": "./lib/greeting.ts" } }),
+    );
+    await ensureDir(join(TEST_PROJECT_DIR, "lib"));
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "lib", "greeting.ts"),
+      `export const greeting: string = "Hello from lib";\nexport const unused = "never imported";\n`,
+    );
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, ENTRY_FILE),
+      `import { commands } from "vscode";
+import { greeting } from "#greeting";
+export function activate() {
+  commands.registerCommand("test.hello", () => console.log(greeting));
+}`,
+    );
+
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      bundler: "esbuild",
+      sourcemap: "external",
+      quiet: true,
+    });
+
+    const bundle = await Deno.readTextFile(result.bundlePath);
+    assertStringIncludes(bundle, "Hello from lib");
+    assertStringIncludes(bundle, `from "vscode"`);
+    assertEquals(bundle.includes("never imported"), false);
+    const map = JSON.parse(await Deno.readTextFile(`${result.bundlePath}.map`));
+    assertEquals(map.sources.sort(), ["../extension.ts", "../lib/greeting.ts"]);
+  });
+
+  it("should reject a missing entry point with ENTRY_NOT_FOUND", async () => {
+    const error = await assertRejects(
+      () => bundleExtension({ projectDir: TEST_PROJECT_DIR, entryPoint: "missing.ts", logError: () => {}, bundleFn: fakeBundle }),
+      BundleError,
+      "Entry point not found",
+    );
+    assertEquals([error.code, error.phase, error.file], ["ENTRY_NOT_FOUND", "resolve", join(TEST_PROJECT_DIR, "missing.ts")]);
+  });
+
+  it("should classify and locate bundler errors", async () => {
+    const entryUrl = `file://${join(TEST_PROJECT_DIR, ENTRY_FILE)}`;
+    const failWith = (message: string) =>
+      assertRejects(
+        () =>
+          bundleExtension({
+            projectDir: TEST_PROJECT_DIR,
+            logError: () => {},
+            bundleFn: () => Promise.reject(new Error(message)),
+          }),
+        BundleError,
+      );
+
+    const syntax = await failWith(`The module's source code could not be parsed: Expected ';', got 'x' at ${entryUrl}:3:5`);
+    assertEquals(
+      [syntax.code, syntax.phase, syntax.file, syntax.line, syntax.column],
+      ["SYNTAX_ERROR", "bundle", join(TEST_PROJECT_DIR, ENTRY_FILE), 3, 5],
+    );
+    const resolve = await failWith(`Module not found "file:///missing.ts".\n    at ${entryUrl}:1:20`);
+    assertEquals([resolve.code, resolve.line, resolve.column], ["RESOLVE_FAILED", 1, 20]);
+  });
+
+  it("should pass the project's import map and compiler options to the bundler", async () => {
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "deno.json"),
+      JSON.stringify({
+        imports: { "#lib/": "./lib/", vscode: "npm:vscode" },
+        compilerOptions: { strict: true, jsx: "react-jsx", jsxImportSource: "https://esm.sh/preact" },
+      }),
+    );
+    let emitOptions: Parameters<typeof fakeBundle>[1];
+    await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      quiet: true,
+      bundleFn: (root, options) => {
+        emitOptions = options;
+        return fakeBundle(root, options);
+      },
+    });
+
+    const { imports } = emitOptions!.importMap as { imports: Record<string, string> };
+    assertEquals(imports["#lib/"], new URL("./lib/", toFileUrl(join(TEST_PROJECT_DIR, "deno.json"))).href);
+    // Externals keep their mapping to the extension host
+    assertEquals(imports.vscode, "https://external.vsce-bundler.invalid/vscode");
+    assertEquals(emitOptions!.compilerOptions, { jsx: "react-jsx", jsxImportSource: "https://esm.sh/preact" });
+  });
+
+  it("should fail offline builds listing every module neither vendored nor cached", async () => {
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, "deno.json"), JSON.stringify({ vendor: true }));
+    await ensureDir(join(TEST_PROJECT_DIR, "vendor", "deno.land", "x", "greet"));
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "vendor", "deno.land", "x", "greet", "mod.ts"),
+      `export const greeting = "vendored";\n`,
+    );
+    const urls = [
+      "https://deno.land/x/greet/mod.ts",
+      "https://deno.land/x/missing_a/mod.ts",
+      "https://deno.land/x/missing_b/mod.ts",
+    ];
+    const loaded: (string | undefined)[] = [];
+
+    const error = await assertRejects(
+      () =>
+        bundleExtension({
+          projectDir: TEST_PROJECT_DIR,
+          offline: true,
+          logError: () => {},
+          bundleFn: async (_root, options) => {
+            for (const url of urls) {
+              const response = await options!.load!(url);
+              loaded.push(
+                response?.kind === "module" ? new TextDecoder().decode(response.content as Uint8Array) : undefined,
+              );
+            }
+            throw new Error(`Module not found "${urls[1]}".`);
+          },
+        }),
+      BundleError,
+    );
+    assertEquals(loaded, [`export const greeting = "vendored";\n`, undefined, undefined]);
+    assertEquals([error.code, error.phase, error.file], ["MODULE_NOT_CACHED", "bundle", urls[1]]);
+    assertStringIncludes(error.message, `\n  ${urls[1]}\n  ${urls[2]}\n`);
+  });
+
+  it("should check remote modules against deno.lock and build offline from the module cache", async () => {
+    const denoDir = Deno.env.get("DENO_DIR");
+    Deno.env.set("DENO_DIR", join(TEST_DIR, "deno-dir"));
+    const server = Deno.serve(
+      { port: 0, onListen: () => {} },
+      () => new Response(`export const greeting = "remote";\n`, { headers: { "content-type": "application/typescript" } }),
+    );
+    const origin = `http://localhost:${server.addr.port}`;
+    const writeEntry = (...modules: string[]) =>
+      Deno.writeTextFile(
+        join(TEST_PROJECT_DIR, ENTRY_FILE),
+        modules.map((module, i) => `export * as module${i} from "${origin}/${module}";\n`).join(""),
+      );
+    const options = { projectDir: TEST_PROJECT_DIR, bundler: "esbuild" as const, useCache: false, quiet: true };
+    try {
+      await Deno.writeTextFile(join(TEST_PROJECT_DIR, "deno.json"), "{}");
+      await writeEntry("greeting.ts");
+      // Downloads the module and records it in the lockfile
+      await bundleExtension(options);
+      const lockPath = join(TEST_PROJECT_DIR, "deno.lock");
+      const lock = JSON.parse(await Deno.readTextFile(lockPath));
+      assertEquals(Object.keys(lock.remote), [`${origin}/greeting.ts`]);
+      await server.shutdown();
+
+      const offline = await bundleExtension({ ...options, offline: true });
+      assertStringIncludes(await Deno.readTextFile(offline.bundlePath), `"remote"`);
+
+      await writeEntry("greeting.ts", "farewell.ts");
+      const missing = await assertRejects(
+        () => bundleExtension({ ...options, offline: true, logError: () => {} }),
+        BundleError,
+      );
+      assertEquals([missing.code, missing.file], ["MODULE_NOT_CACHED", `${origin}/farewell.ts`]);
+
+      await writeEntry("greeting.ts");
+      lock.remote[`${origin}/greeting.ts`] = "0".repeat(64);
+      await Deno.writeTextFile(lockPath, JSON.stringify(lock));
+      const tampered = await assertRejects(
+        () => bundleExtension({ ...options, offline: true, logError: () => {} }),
+        BundleError,
+        "Integrity check failed",
+      );
+      assertEquals(tampered.code, "INTEGRITY_FAILED");
+    } finally {
+      await server.shutdown();
+      if (denoDir === undefined) Deno.env.delete("DENO_DIR");
+      else Deno.env.set("DENO_DIR", denoDir);
+    }
+  });
+
+  it("should bundle the browser build of npm packages for the webworker target", async () => {
+    const denoDir = Deno.env.get("DENO_DIR");
+    const registry = Deno.env.get("NPM_CONFIG_REGISTRY");
+    const tarball = await npmTarball({
+      "package.json": JSON.stringify({
+        name: "dual",
+        version: "1.0.0",
+        exports: { ".": { node: "./node.js", browser: "./browser.js", default: "./node.js" } },
+      }),
+      "node.js": `import { platform } from "node:os";\nexport const build = "node build on " + platform();\n`,
+      "browser.js": `export const build = "browser build";\n`,
+    });
+    const integrity = `sha512-${
+      btoa(String.fromCharCode(...new Uint8Array(await crypto.subtle.digest("SHA-512", tarball))))
+    }`;
+    const server = Deno.serve({ port: 0, onListen: () => {} }, (request) => {
+      const { origin, pathname } = new URL(request.url);
+      if (pathname === "/dual.tgz") return new Response(tarball);
+      return Response.json({
+        name: "dual",
+        "dist-tags": { latest: "1.0.0" },
+        versions: { "1.0.0": { name: "dual", version: "1.0.0", dist: { tarball: `${origin}/dual.tgz`, integrity } } },
+      });
+    });
+    Deno.env.set("DENO_DIR", join(TEST_DIR, "deno-dir"));
+    Deno.env.set("NPM_CONFIG_REGISTRY", `http://localhost:${server.addr.port}/`);
+    try {
+      // Resolve from Deno's npm cache rather than the package.json's node_modules
+      await Deno.writeTextFile(join(TEST_PROJECT_DIR, "deno.json"), `{ "nodeModulesDir": "none" }`);
+      await Deno.writeTextFile(
+        join(TEST_PROJECT_DIR, ENTRY_FILE),
+        `import { build } from "npm:dual@1.0.0";\nexport function activate() {\n  console.log(build);\n}\n`,
+      );
+      const result = await bundleExtension({
+        projectDir: TEST_PROJECT_DIR,
+        bundler: "esbuild",
+        targets: ["node", "webworker"],
+        validate: "error",
+        useCache: false,
+        quiet: true,
+      });
+      const node = await Deno.readTextFile(result.targets!.node!.bundlePath);
+      const webworker = await Deno.readTextFile(result.targets!.webworker!.bundlePath);
+      assertStringIncludes(node, "node build on");
+      assertEquals(node.includes("browser build"), false);
+      assertStringIncludes(webworker, "browser build");
+      assertEquals(webworker.includes("node build on"), false);
+    } finally {
+      await server.shutdown();
+      if (denoDir === undefined) Deno.env.delete("DENO_DIR");
+      else Deno.env.set("DENO_DIR", denoDir);
+      if (registry === undefined) Deno.env.delete("NPM_CONFIG_REGISTRY");
+      else Deno.env.set("NPM_CONFIG_REGISTRY", registry);
+    }
+  });
+
+  it("should locate esbuild syntax errors in the sources", async () => {
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, "broken.ts"), `export const a = 1;\nexport const b = ;\n`);
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, ENTRY_FILE), `export { b } from "./broken.ts";\n`);
+    const error = await assertRejects(
+      () => bundleExtension({ projectDir: TEST_PROJECT_DIR, bundler: "esbuild", logError: () => {} }),
+      BundleError,
+    );
+    assertEquals(
+      [error.code, error.phase, error.file, error.line, error.column],
+      ["SYNTAX_ERROR", "bundle", join(TEST_PROJECT_DIR, "broken.ts"), 2, 18],
+    );
+  });
+
+  it("should report type errors in warn mode and re-check changed files", async () => {
+    // Offline stand-in for the @typed/vscode declarations
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "deno.json"),
+      JSON.stringify({ imports: { vscode: "./vscode.d.ts" } }),
+    );
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "vscode.d.ts"),
+      `export declare const commands: { registerCommand(id: string, run: () => void): void };\n`,
+    );
+    await ensureDir(join(TEST_PROJECT_DIR, "lib"));
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, "lib", "greeting.ts"), `export const greeting: string = 42;\n`);
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, ENTRY_FILE),
+      `import { commands } from "vscode";
+import { greeting } from "./lib/greeting.ts";
+export function activate() {
+  commands.registerCommand("test.hello", () => console.log(greeting));
+}`,
+    );
+
+    const result = await bundleExtension({ projectDir: TEST_PROJECT_DIR, typeCheck: "warn", quiet: true, bundleFn: fakeBundle });
+
+    assertEquals(
+      result.typeDiagnostics?.map(({ code, file, line, column }) => [code, file, line, column]),
+      [[2322, join(TEST_PROJECT_DIR, "lib", "greeting.ts"), 1, 14]],
+    );
+    assertStringIncludes(result.messages[0], "TS2322");
+    assertEquals((await Deno.stat(result.bundlePath)).isFile, true);
+
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, "lib", "greeting.ts"), `export const greeting: string = "hi";\n`);
+    const fixed = await bundleExtension({ projectDir: TEST_PROJECT_DIR, typeCheck: "warn", quiet: true, bundleFn: fakeBundle });
+
+    assertEquals(fixed.typeDiagnostics, []);
+  });
+
+  it("should fail with TYPE_ERROR before writing output in error mode", async () => {
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "deno.json"),
+      JSON.stringify({ imports: { vscode: "./vscode.d.ts" } }),
+    );
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, "vscode.d.ts"), `export declare const commands: unknown;\n`);
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, ENTRY_FILE), `export function activate(): string {\n  return 1;\n}\n`);
+    const errors: string[] = [];
+
+    const error = await assertRejects(
+      () =>
+        bundleExtension({
+          projectDir: TEST_PROJECT_DIR,
+          typeCheck: "error",
+          logError: (msg) => errors.push(msg),
+          bundleFn: fakeBundle,
+        }),
+      BundleError,
+      "Type check failed with 1 error(s)",
+    );
+    assertEquals(
+      [error.code, error.phase, error.file, error.line, error.column],
+      ["TYPE_ERROR", "check", join(TEST_PROJECT_DIR, ENTRY_FILE), 2, 3],
+    );
+    assertStringIncludes(errors[0], "TS2322");
+    await assertRejects(() => Deno.stat(join(OUT_PATH, OUT_FILE)), Deno.errors.NotFound);
+  });
+
+  it("should report phases, the cache decision and outputs as events", async () => {
+    const events: BuildEvent[] = [];
+    const logged: string[] = [];
+    const options = {
+      projectDir: TEST_PROJECT_DIR,
+      reporters: [(event: BuildEvent) => events.push(event)],
+      log: (msg: string) => logged.push(msg),
+      bundleFn: fakeBundle,
+    };
+
+    await bundleExtension(options);
+
+    assertEquals(events[0].type, "build-start");
+    assertEquals(events.at(-1)?.type, "build-end");
+    const phases = events.flatMap((event) => event.type === "phase-end" ? [event.phase] : []);
+    assertEquals(phases, ["resolve", "lock", "hash", "cache", "bundle", "transform", "transform", "write", "write", "verify", "write"]);
+    const decisions = () => events.flatMap((event) => event.type === "cache" ? [[event.hit, event.reason]] : []);
+    assertEquals(decisions(), [[false, "no-cache"]]);
+    const outputs = events.flatMap((event) => event.type === "output" ? [[event.kind, relative(OUT_PATH, event.path)]] : []);
+    assertEquals(outputs, [["bundle", OUT_FILE]]);
+    // Reporters replace the default log output
+    assertEquals(logged, []);
+
+    events.length = 0;
+    const cached = await bundleExtension(options);
+
+    assertEquals(cached.fromCache, true);
+    assertEquals(decisions(), [[true, undefined]]);
+    assertEquals(events.some((event) => event.type === "output"), false);
+  });
+
+  it("should fail with a BundleError when a cached bundle disappears after the cache check", async () => {
+    await bundleExtension({ projectDir: TEST_PROJECT_DIR, quiet: true, bundleFn: fakeBundle });
+    const events: BuildEvent[] = [];
+    const reporter = (event: BuildEvent) => {
+      events.push(event);
+      if (event.type === "cache" && event.hit) Deno.removeSync(join(OUT_PATH, OUT_FILE));
+    };
+
+    const error = await assertRejects(
+      () => bundleExtension({ projectDir: TEST_PROJECT_DIR, reporters: [reporter], bundleFn: fakeBundle }),
+      BundleError,
+    );
+    assertEquals([error.code, error.phase], ["BUNDLE_FAILED", "cache"]);
+    assertEquals(error.cause instanceof Deno.errors.NotFound, true);
+    assertEquals(events.at(-1)?.type, "build-failed");
+  });
+
+  it("should write NDJSON events with warnings even when quiet", async () => {
+    const lines: string[] = [];
+    const result = await bundleExtension({
+      projectDir: TEST_PROJECT_DIR,
+      // The fake bundler returns no source map, which is warned about
+      sourcemap: "external",
+      quiet: true,
+      reporters: [ndjsonReporter((line) => lines.push(line))],
+      bundleFn: fakeBundle,
+    });
+
+    const events = lines.map((line) => JSON.parse(line) as BuildEvent);
+    const warnings = events.filter((event) => event.type === "message" && event.level === "warning");
+    assertEquals(warnings.length, 1);
+    assertEquals(result.messages, warnings.map((event) => event.type === "message" && event.message));
+    // Messages are plain text
+    assertEquals(result.messages[0].includes("\x1b["), false);
+    const end = events.at(-1)!;
+    assertEquals(end.type === "build-end" && end.bundlePath, result.bundlePath);
+  });
+
+  it("should serialize builds of the same output directory", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const slowBundle: typeof import("jsr:@deno/emit").bundle = async (...args) => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      active--;
+      return fakeBundle(...args);
+    };
+    const build = () => bundleExtension({ projectDir: TEST_PROJECT_DIR, useCache: false, quiet: true, bundleFn: slowBundle });
+
+    await Promise.all([build(), build()]);
+
+    assertEquals(maxActive, 1);
+    // Neither the lock nor temporary files are left behind
+    assertEquals([...Deno.readDirSync(OUT_PATH)].map(({ name }) => name).sort(), [".build-sizes.json", OUT_FILE]);
+  });
+
+  it("should fail with LOCKED on a held lock and take over abandoned ones", async () => {
+    const lockPath = join(OUT_PATH, ".build.lock");
+    await Deno.writeTextFile(lockPath, "{}");
+
+    const error = await assertRejects(
+      () => bundleExtension({ projectDir: TEST_PROJECT_DIR, lock: "fail", logError: () => {}, bundleFn: fakeBundle }),
+      BundleError,
+      "is locked by another build",
+    );
+    assertEquals([error.code, error.phase], ["LOCKED", "lock"]);
+    await assertRejects(() => Deno.stat(join(OUT_PATH, OUT_FILE)), Deno.errors.NotFound);
+
+    // A crashed build no longer refreshes its lock
+    const past = new Date(Date.now() - 60_000);
+    await Deno.utime(lockPath, past, past);
+    const result = await bundleExtension({ projectDir: TEST_PROJECT_DIR, lock: "fail", quiet: true, bundleFn: fakeBundle });
+
+    assertEquals(result.fromCache, false);
+    await assertRejects(() => Deno.stat(lockPath), Deno.errors.NotFound);
+  });
+
+  it("should not release a lock that another build has taken over", async () => {
+    const lockPath = join(OUT_PATH, ".build.lock");
+    const takenOver = JSON.stringify({ pid: 0, token: "other-build" });
+    const takeOver: BundlePlugin = {
+      name: "take-over",
+      beforeBundle: () => Deno.writeTextFile(lockPath, takenOver),
+    };
+
+    await bundleExtension({ projectDir: TEST_PROJECT_DIR, plugins: [takeOver], quiet: true, bundleFn: fakeBundle });
+
+    assertEquals(await Deno.readTextFile(lockPath), takenOver);
+  });
+
+  it("should stop an aborted build without updating the cache", async () => {
+    const controller = new AbortController();
+    const abortingBundle: typeof import("jsr:@deno/emit").bundle = (...args) => {
+      controller.abort();
+      return fakeBundle(...args);
+    };
+
+    const error = await assertRejects(
+      () =>
+        bundleExtension({
+          projectDir: TEST_PROJECT_DIR,
+          signal: controller.signal,
+          logError: () => {},
+          bundleFn: abortingBundle,
+        }),
+      BundleError,
+      "Build aborted",
+    );
+
+    assertEquals(error.code, "ABORTED");
+    await assertRejects(() => Deno.stat(join(OUT_PATH, ".build-cache.json")), Deno.errors.NotFound);
+    await assertRejects(() => Deno.stat(join(OUT_PATH, ".build.lock")), Deno.errors.NotFound);
+  });
+
   it("should throw error on bundling failure", async () => {
     const errorBundle: typeof import("jsr:@deno/emit").bundle = () => Promise.reject(new Error("Simulated bundle error"));
     // Should throw error
@@ -223,13 +1298,221 @@ describe("bundleExtension", () => {
       "Simulated bundle error",
     );
   });
+});
+
+// The same builds through the real bundlers, without a fake `bundleFn`
+for (const bundler of ["emit", "esbuild"] as const) {
+  describe(`bundleExtension with the ${bundler} backend`, () => {
+    const build = (options: Omit<BundleOptions, "projectDir"> = {}) =>
+      bundleExtension({ projectDir: TEST_PROJECT_DIR, bundler, quiet: true, ...options });
+
+    /** Run a CommonJS bundle, returning its exports and the registered commands. */
+    const runCommonJs = async (bundlePath: string) => {
+      const commands: string[] = [];
+      const module = { exports: {} as Record<string, unknown> };
+      new Function("module", "exports", "require", await Deno.readTextFile(bundlePath))(
+        module,
+        module.exports,
+        () => ({ commands: { registerCommand: (id: string) => commands.push(id) } }),
+      );
+      (module.exports.activate as () => void)();
+      return commands;
+    };
+
+    beforeEach(async () => {
+      await setupTestProject();
+      await ensureDir(join(TEST_PROJECT_DIR, "lib"));
+      await Deno.writeTextFile(
+        join(TEST_PROJECT_DIR, "lib", "greeting.ts"),
+        `export const greeting: string = "Hello from lib";\n`,
+      );
+      await Deno.writeTextFile(
+        join(TEST_PROJECT_DIR, ENTRY_FILE),
+        `import { commands } from "vscode";
+import { greeting } from "./lib/greeting.ts";
+export function activate() {
+  commands.registerCommand("test.hello", () => console.log(greeting));
+}`,
+      );
+    });
+
+    afterEach(async () => {
+      await cleanupTestProject();
+    });
+
+    it("should bundle the entry point with its local imports", async () => {
+      const result = await build({ validate: "warn" });
+
+      const bundle = await Deno.readTextFile(result.bundlePath);
+      assertStringIncludes(bundle, "Hello from lib");
+      assertEquals(bundle.includes(": string"), false);
+      assertEquals(result.diagnostics, []);
+      assertEquals(result.size, (await Deno.stat(result.bundlePath)).size);
+    });
+
+    it("should reuse the cached build until an imported module changes", async () => {
+      await build();
+
+      const cached = await build();
+      assertEquals(cached.fromCache, true);
+
+      await Deno.writeTextFile(
+        join(TEST_PROJECT_DIR, "lib", "greeting.ts"),
+        `export const greeting: string = "Hello again";\n`,
+      );
+      const rebuilt = await build();
+      assertEquals(rebuilt.cacheMissReason, "sources-changed");
+      assertStringIncludes(await Deno.readTextFile(rebuilt.bundlePath), "Hello again");
+    });
+
+    it("should keep externals as runtime imports", async () => {
+      const result = await build();
+
+      const bundle = await Deno.readTextFile(result.bundlePath);
+      assertStringIncludes(bundle, `from "vscode"`);
+      assertEquals(bundle.includes("external.vsce-bundler.invalid"), false);
+    });
+
+    it("should write one CommonJS bundle per target", async () => {
+      const result = await build({ targets: ["node", "webworker"] });
+
+      for (const target of ["node", "webworker"] as const) {
+        const { bundlePath } = result.targets![target]!;
+        assertEquals(bundlePath, join(OUT_PATH, target, OUT_FILE));
+        assertEquals(await runCommonJs(bundlePath), ["test.hello"]);
+      }
+    });
 
-  // Add these tests if we can properly mock the minifiers
-  /*
-  it("should minify with esbuild when requested", async () => {});
-  it("should minify with terser when requested", async () => {});
-  it("should handle terser not being available", async () => {});
-  */
+    for (const minifier of ["esbuild", "terser"] as const) {
+      it(`should minify with ${minifier}`, async () => {
+        const plain = await build({ targets: ["node"], useCache: false });
+        const minified = await build({ targets: ["node"], useCache: false, minify: true, minifier });
+
+        assertEquals(minified.size < plain.size, true);
+        assertEquals(await runCommonJs(minified.bundlePath), ["test.hello"]);
+      });
+    }
+  });
+}
+
+describe("watchExtension", () => {
+  beforeEach(async () => {
+    await setupTestProject();
+  });
+
+  afterEach(async () => {
+    await cleanupTestProject();
+  });
+
+  it("should rebuild once for a burst of changes", async () => {
+    const watcher = watchExtension({
+      projectDir: TEST_PROJECT_DIR,
+      bundleFn: fakeBundle,
+      quiet: true,
+      debounceMs: 50,
+    });
+    const iterator = watcher.results[Symbol.asyncIterator]();
+
+    const initial = await iterator.next();
+    assertEquals(initial.value instanceof Error, false);
+
+    // Several writes in quick succession should coalesce into one rebuild
+    for (let i = 0; i < 3; i++) {
+      await Deno.writeTextFile(
+        join(TEST_PROJECT_DIR, ENTRY_FILE),
+        `export function activate() { console.log(${i}); }`,
+      );
+    }
+
+    const rebuild = await iterator.next();
+    assertEquals(rebuild.done, false);
+    if (rebuild.value instanceof Error) throw rebuild.value;
+    assertEquals(rebuild.value.fromCache, false);
+
+    watcher.stop();
+    assertEquals((await iterator.next()).done, true);
+  });
+
+  it("should not rebuild for its own outputs with a relative projectDir", async () => {
+    const watcher = watchExtension({
+      projectDir: relative(Deno.cwd(), TEST_PROJECT_DIR),
+      bundleFn: fakeBundle,
+      useCache: false,
+      quiet: true,
+      debounceMs: 50,
+    });
+    const iterator = watcher.results[Symbol.asyncIterator]();
+
+    const initial = await iterator.next();
+    if (initial.value instanceof Error) throw initial.value;
+    // A sibling directory that merely starts with the outDir name is watched
+    await ensureDir(join(TEST_PROJECT_DIR, `${OUT_DIR}put`));
+    const next = iterator.next();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const idle = new Promise((resolve) => timeout = setTimeout(() => resolve("idle"), 500));
+    assertEquals(await Promise.race([next, idle]), "idle");
+    clearTimeout(timeout);
+
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, `${OUT_DIR}put`, "helper.ts"), "export {};\n");
+    const rebuild = await next;
+    if (rebuild.value instanceof Error) throw rebuild.value;
+    assertEquals(rebuild.done, false);
+
+    watcher.stop();
+    assertEquals((await iterator.next()).done, true);
+  });
+
+  it("should not rebuild for its own outputs in manifest mode", async () => {
+    await Deno.writeTextFile(
+      join(TEST_PROJECT_DIR, "package.json"),
+      JSON.stringify({
+        name: "test-extension",
+        engines: { vscode: "^1.60.0" },
+        main: "./dist/node/extension.js",
+        browser: "./dist/web/extension.js",
+      }),
+    );
+    const watcher = watchExtension({
+      projectDir: TEST_PROJECT_DIR,
+      manifest: true,
+      bundleFn: fakeBundle,
+      useCache: false,
+      quiet: true,
+      debounceMs: 50,
+    });
+    const iterator = watcher.results[Symbol.asyncIterator]();
+
+    const initial = await iterator.next();
+    if (initial.value instanceof Error) throw initial.value;
+    const next = iterator.next();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const idle = new Promise((resolve) => timeout = setTimeout(() => resolve("idle"), 500));
+    assertEquals(await Promise.race([next, idle]), "idle");
+    clearTimeout(timeout);
+
+    await Deno.writeTextFile(join(TEST_PROJECT_DIR, ENTRY_FILE), "export function activate() {}\n");
+    const rebuild = await next;
+    if (rebuild.value instanceof Error) throw rebuild.value;
+    assertEquals(rebuild.done, false);
+
+    watcher.stop();
+    assertEquals((await iterator.next()).done, true);
+  });
+
+  it("should yield errors without ending the iteration", async () => {
+    const watcher = watchExtension({
+      projectDir: TEST_PROJECT_DIR,
+      bundleFn: () => Promise.reject(new Error("Simulated bundle error")),
+      logError: () => {},
+    });
+    const iterator = watcher.results[Symbol.asyncIterator]();
+
+    const first = await iterator.next();
+    assertEquals(first.value instanceof Error, true);
+
+    watcher.stop();
+    assertEquals((await iterator.next()).done, true);
+  });
 });
 
 // Mock for bundleWebExtension compatibility function
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Tests for the command-line front end
+ */
+
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import { join } from "jsr:@std/path";
+
+import { main } from "../cli.ts";
+
+const TEST_DIR = join(Deno.makeTempDirSync(), "cli-test");
+
+function captureIO() {
+  const out: string[] = [];
+  const err: string[] = [];
+  return {
+    out,
+    err,
+    io: { log: (msg: string) => out.push(msg), error: (msg: string) => err.push(msg) },
+  };
+}
+
+describe("cli", () => {
+  beforeEach(async () => {
+    await Deno.mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await Deno.remove(TEST_DIR, { recursive: true });
+    } catch (_) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should print usage with --help", async () => {
+    const { out, io } = captureIO();
+    assertEquals(await main(["--help"], io), 0);
+    assertStringIncludes(out.join("\n"), "Usage:");
+  });
+
+  it("should reject unknown options with a usage error", async () => {
+    const { err, io } = captureIO();
+    assertEquals(await main(["--frobnicate"], io), 2);
+    assertStringIncludes(err.join("\n"), "Unknown option: --frobnicate");
+  });
+
+  it("should reject an invalid minifier", async () => {
+    const { io } = captureIO();
+    assertEquals(await main([TEST_DIR, "--minifier", "uglify"], io), 2);
+  });
+
+  it("should reject an unknown bundler backend", async () => {
+    const { err, io } = captureIO();
+    assertEquals(await main([TEST_DIR, "--bundler", "rollup"], io), 2);
+    assertStringIncludes(err.join("\n"), "Invalid --bundler 'rollup' (expected emit or esbuild)");
+  });
+
+  it("should reject an invalid type check mode", async () => {
+    const { err, io } = captureIO();
+    assertEquals(await main([TEST_DIR, "--type-check", "strict"], io), 2);
+    assertStringIncludes(err.join("\n"), "Invalid --type-check 'strict' (expected off, warn, error)");
+  });
+
+  it("should reject an unknown reporter", async () => {
+    const { err, io } = captureIO();
+    assertEquals(await main([TEST_DIR, "--reporter", "fancy"], io), 2);
+    assertStringIncludes(err.join("\n"), "Invalid --reporter 'fancy' (expected pretty, ndjson, silent)");
+  });
+
+  it("should print build events as NDJSON", async () => {
+    const { out, err, io } = captureIO();
+    assertEquals(await main([TEST_DIR, "--reporter", "ndjson"], io), 1);
+    const events = out.map((line) => JSON.parse(line));
+    assertEquals(events[0].type, "build-start");
+    assertEquals(events.at(-1).type, "build-failed");
+    assertEquals(events.at(-1).code, "ENTRY_NOT_FOUND");
+    assertEquals(err, []);
+  });
+
+  it("should list the remote modules an --offline build is missing", async () => {
+    await Deno.writeTextFile(
+      join(TEST_DIR, "extension.ts"),
+      `export * from "https://deno.land/x/vsce_bundler_missing/mod.ts";\n`,
+    );
+    const { out, io } = captureIO();
+    assertEquals(await main([TEST_DIR, "--offline", "--bundler", "esbuild", "--reporter", "ndjson"], io), 1);
+    const failure = JSON.parse(out.at(-1)!);
+    assertEquals(failure.code, "MODULE_NOT_CACHED");
+    assertStringIncludes(failure.message, "  https://deno.land/x/vsce_bundler_missing/mod.ts");
+  });
+
+  it("should reject an unknown lock policy", async () => {
+    const { err, io } = captureIO();
+    assertEquals(await main([TEST_DIR, "--lock", "maybe"], io), 2);
+    assertStringIncludes(err.join("\n"), "Invalid --lock 'maybe' (expected wait, fail, off)");
+  });
+
+  it("should reject a size budget that is not a number", async () => {
+    const { err, io } = captureIO();
+    assertEquals(await main([TEST_DIR, "--max-size", "500kB"], io), 2);
+    assertStringIncludes(err.join("\n"), "Invalid --max-size '500kB'");
+  });
+
+  it("should reject a define without an expression", async () => {
+    const { err, io } = captureIO();
+    assertEquals(await main([TEST_DIR, "--define", "__DEV__"], io), 2);
+    assertStringIncludes(err.join("\n"), "Invalid --define '__DEV__'");
+  });
+
+  it("should fail validation when Node builtins are imported", async () => {
+    await Deno.writeTextFile(
+      join(TEST_DIR, "extension.ts"),
+      `import { readFileSync } from "fs";\nexport function activate() {}`,
+    );
+    const { err, io } = captureIO();
+    assertEquals(await main(["validate", TEST_DIR], io), 1);
+    assertStringIncludes(err.join("\n"), "'fs'");
+  });
+
+  it("should emit SARIF for validation issues", async () => {
+    await Deno.writeTextFile(
+      join(TEST_DIR, "extension.ts"),
+      `import { readFileSync } from "fs";\nexport function activate() {}`,
+    );
+    const { out, io } = captureIO();
+    assertEquals(await main(["validate", TEST_DIR, "--format", "sarif"], io), 1);
+
+    const sarif = JSON.parse(out.join("\n"));
+    const [result] = sarif.runs[0].results;
+    assertEquals(result.ruleId, "node-builtin-import");
+    assertEquals(result.locations[0].physicalLocation.region, {
+      startLine: 1,
+      startColumn: 30,
+    });
+  });
+
+  it("should pass validation for a web-compatible extension", async () => {
+    await Deno.writeTextFile(
+      join(TEST_DIR, "extension.ts"),
+      `export function activate() {}`,
+    );
+    const { io } = captureIO();
+    assertEquals(await main(["validate", TEST_DIR], io), 0);
+  });
+
+  it("should fail lint when a contributed command is never registered", async () => {
+    await Deno.writeTextFile(
+      join(TEST_DIR, "package.json"),
+      JSON.stringify({ name: "ext", main: "./out/extension.js", contributes: { commands: [{ command: "ext.hello" }] } }),
+    );
+    await Deno.writeTextFile(join(TEST_DIR, "extension.ts"), `export function activate() {}`);
+    const { err, io } = captureIO();
+
+    assertEquals(await main(["lint", TEST_DIR], io), 1);
+    assertStringIncludes(err.join("\n"), "[manifest-command-unregistered] contributes command 'ext.hello'");
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Tests for the manifest linter
+ */
+
+import { assertEquals } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import { join } from "jsr:@std/path";
+
+import { analyzeManifest } from "../mod.ts";
+
+const TEST_DIR = join(Deno.makeTempDirSync(), "lint-test");
+const ENTRY = join(TEST_DIR, "extension.ts");
+const MANIFEST = join(TEST_DIR, "package.json");
+
+/** Write package.json, pretty-printed so issues have distinct lines. */
+function writeManifest(manifest: Record<string, unknown>): Promise<void> {
+  return Deno.writeTextFile(MANIFEST, JSON.stringify(manifest, null, 2));
+}
+
+describe("analyzeManifest", () => {
+  beforeEach(async () => {
+    await Deno.mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await Deno.remove(TEST_DIR, { recursive: true });
+    } catch (_) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should report no issues for a consistent web extension", async () => {
+    await writeManifest({
+      name: "ext",
+      main: "./out/extension.js",
+      browser: "./out/web/extension.js",
+      capabilities: { untrustedWorkspaces: { supported: true }, virtualWorkspaces: true },
+      activationEvents: ["onCommand:ext.hello", "onView:ext.items"],
+      contributes: {
+        commands: [{ command: "ext.hello", title: "Hello" }],
+        views: { explorer: [{ id: "ext.items", name: "Items" }] },
+        configuration: { properties: { "ext.greeting": { type: "string" } } },
+      },
+    });
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `import * as vscode from "vscode";`,
+        `export function activate() {`,
+        `  vscode.commands.registerCommand("ext.hello", () => {});`,
+        `  vscode.window.createTreeView("ext.items", { treeDataProvider: {} as any });`,
+        `  const config = vscode.workspace.getConfiguration("ext");`,
+        `  return config.get("greeting");`,
+        `}`,
+      ].join("\n"),
+    );
+
+    assertEquals(await analyzeManifest(TEST_DIR), []);
+  });
+
+  it("should report mismatched commands, views and activation events", async () => {
+    await writeManifest({
+      name: "ext",
+      main: "./out/extension.js",
+      browser: "./out/web/extension.js",
+      capabilities: { untrustedWorkspaces: { supported: true }, virtualWorkspaces: true },
+      activationEvents: ["onCommand:ext.missing", "onView:ext.items"],
+      contributes: {
+        commands: [{ command: "ext.helo", title: "Hello" }],
+        views: { explorer: [{ id: "ext.items", name: "Items" }] },
+      },
+    });
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `import { commands, window } from "vscode";`,
+        `commands.registerCommand("ext.hello", () => {});`,
+        `window.registerTreeDataProvider("ext.other", {} as any);`,
+      ].join("\n"),
+    );
+
+    const issues = await analyzeManifest(TEST_DIR);
+
+    assertEquals(issues.map((issue) => [issue.file, issue.line, issue.ruleId, issue.severity]), [
+      [MANIFEST, 18, "manifest-command-unregistered", "error"],
+      [ENTRY, 2, "manifest-command-undeclared", "warning"],
+      [MANIFEST, 25, "manifest-view-unregistered", "warning"],
+      [ENTRY, 3, "manifest-view-undeclared", "error"],
+      [MANIFEST, 12, "manifest-activation-event-unknown", "error"],
+    ]);
+  });
+
+  it("should report undeclared settings and web extension gaps", async () => {
+    await writeManifest({
+      name: "ext",
+      main: "./out/extension.js",
+      contributes: {
+        configuration: [{ properties: { "ext.greeting": { type: "string" } } }],
+      },
+    });
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `import { workspace } from "vscode";`,
+        `workspace.getConfiguration("ext").get("greeting");`,
+        `workspace.getConfiguration("ext").get("farewell");`,
+        `workspace.getConfiguration().get("editor.fontSize");`,
+        `workspace.getConfiguration().get("ext.timeout");`,
+      ].join("\n"),
+    );
+
+    const issues = await analyzeManifest(TEST_DIR);
+
+    assertEquals(issues.map((issue) => [issue.line, issue.ruleId, issue.message]), [
+      [3, "manifest-configuration-undeclared", "reads setting 'ext.farewell' that package.json does not contribute"],
+      [5, "manifest-configuration-undeclared", "reads setting 'ext.timeout' that package.json does not contribute"],
+      [
+        3,
+        "manifest-browser-missing",
+        "declares no 'browser' entry, so the extension is unavailable in VS Code for the Web",
+      ],
+    ]);
+  });
+
+  it("should report malformed contributions instead of throwing", async () => {
+    await writeManifest({
+      name: "ext",
+      main: "./out/extension.js",
+      browser: "./out/web/extension.js",
+      capabilities: { untrustedWorkspaces: { supported: true }, virtualWorkspaces: true },
+      activationEvents: "onCommand:ext.hello",
+      contributes: {
+        commands: { command: "ext.hello" },
+        views: { explorer: [null, { id: "ext.items" }] },
+        configuration: [{ properties: { "ext.greeting": { type: "string" } } }, "ext"],
+      },
+    });
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `import { commands, window, workspace } from "vscode";`,
+        `commands.registerCommand("ext.hello", () => {});`,
+        `window.registerTreeDataProvider("ext.items", {} as any);`,
+        `workspace.getConfiguration("ext").get("greeting");`,
+      ].join("\n"),
+    );
+
+    const issues = await analyzeManifest(TEST_DIR);
+
+    assertEquals(issues.map((issue) => [issue.line, issue.ruleId, issue.message]), [
+      [11, "manifest-contribution-malformed", "'activationEvents' is not an array"],
+      [13, "manifest-contribution-malformed", "'contributes.commands' is not an array"],
+      [
+        17,
+        "manifest-contribution-malformed",
+        "'contributes.views.explorer' contains a view without a string 'id'",
+      ],
+      [
+        24,
+        "manifest-contribution-malformed",
+        "'contributes.configuration' contains an entry without a 'properties' object",
+      ],
+      [2, "manifest-command-undeclared", "registers command 'ext.hello' that package.json does not contribute"],
+    ]);
+  });
+});
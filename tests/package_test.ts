@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Tests for VSIX packaging
+ */
+
+import { assertEquals, assertRejects, assertStringIncludes } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import { join } from "jsr:@std/path";
+
+import { type BundleResult, packageExtension } from "../mod.ts";
+
+const TEST_DIR = join(Deno.makeTempDirSync(), "package-test");
+
+const MANIFEST = {
+  name: "ext",
+  version: "1.2.3",
+  publisher: "acme",
+  displayName: "Ext & Co",
+  main: "./out/extension.js",
+  engines: { vscode: "^1.80.0" },
+};
+
+/** Write files relative to the test project. */
+async function writeFiles(files: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await Deno.mkdir(join(TEST_DIR, path, ".."), { recursive: true });
+    await Deno.writeTextFile(join(TEST_DIR, path), content);
+  }
+}
+
+/** Extract a ZIP archive using its central directory. */
+async function unzip(archive: Uint8Array): Promise<Map<string, string>> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const end = archive.length - 22;
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const local = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(
+      archive.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const body = archive.slice(start, start + compressedSize);
+    entries.set(
+      name,
+      method === 0 ? new TextDecoder().decode(body) : await new Response(
+        new Blob([body]).stream().pipeThrough(new DecompressionStream("deflate-raw")),
+      ).text(),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function bundleAt(path: string): BundleResult {
+  return { bundlePath: join(TEST_DIR, path), size: 0, buildTimeMs: 0, fromCache: false, messages: [] };
+}
+
+describe("packageExtension", () => {
+  beforeEach(async () => {
+    await Deno.mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await Deno.remove(TEST_DIR, { recursive: true });
+    } catch (_) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should package the project files honoring .vscodeignore", async () => {
+    await writeFiles({
+      "package.json": JSON.stringify(MANIFEST),
+      "README.md": "# Ext",
+      "LICENSE": "MIT",
+      "out/extension.js": "exports.activate = () => {};",
+      "out/extension.js.map": "{}",
+      "src/extension.ts": "export function activate() {}",
+      "src/assets/keep.txt": "kept",
+      "node_modules/dep/index.js": "",
+      ".vscodeignore": "src/\n**/*.map\n!src/assets/**\n",
+    });
+
+    const result = await packageExtension({
+      projectDir: TEST_DIR,
+      bundle: bundleAt("out/extension.js"),
+    });
+
+    assertEquals(result.vsixPath, join(TEST_DIR, "ext-1.2.3.vsix"));
+    assertEquals(result.files.map((file) => file.path), [
+      "LICENSE",
+      "README.md",
+      "out/extension.js",
+      "package.json",
+      "src/assets/keep.txt",
+    ]);
+    assertEquals(result.unpackedSize, result.files.reduce((total, file) => total + file.size, 0));
+
+    const archive = await Deno.readFile(result.vsixPath);
+    assertEquals(result.size, archive.length);
+    const entries = await unzip(archive);
+    assertEquals([...entries.keys()], [
+      "extension.vsixmanifest",
+      "[Content_Types].xml",
+      "extension/LICENSE.txt",
+      "extension/README.md",
+      "extension/out/extension.js",
+      "extension/package.json",
+      "extension/src/assets/keep.txt",
+    ]);
+    assertEquals(entries.get("extension/out/extension.js"), "exports.activate = () => {};");
+    assertEquals(entries.get("extension/LICENSE.txt"), "MIT");
+  });
+
+  it("should exclude dependency and test directories unless re-included", async () => {
+    await writeFiles({
+      "package.json": JSON.stringify(MANIFEST),
+      "out/extension.js": "",
+      "node_modules/dep/index.js": "",
+      "node_modules/native/build/addon.node": "",
+      "vendor/deno.land/x/mod.ts": "",
+      ".vscode-test/vscode-linux-x64/code": "",
+      ".vscodeignore": "!node_modules/native/build/**\n",
+    });
+
+    const result = await packageExtension({
+      projectDir: TEST_DIR,
+      bundle: bundleAt("out/extension.js"),
+    });
+
+    assertEquals(result.files.map((file) => file.path), [
+      "node_modules/native/build/addon.node",
+      "out/extension.js",
+      "package.json",
+    ]);
+  });
+
+  it("should describe the extension in the VSIX manifest", async () => {
+    await writeFiles({
+      "package.json": JSON.stringify({ ...MANIFEST, icon: "images/icon.png" }),
+      "CHANGELOG.md": "## 1.2.3",
+      "images/icon.png": "png",
+      "out/extension.js": "",
+    });
+    // Pass the manifest so its serialization can be checked in the archive
+    const result = await packageExtension({
+      projectDir: TEST_DIR,
+      manifest: { ...MANIFEST, icon: "images/icon.png" },
+      outFile: "dist/ext.vsix",
+    });
+    assertEquals(result.vsixPath, join(TEST_DIR, "dist/ext.vsix"));
+
+    const entries = await unzip(await Deno.readFile(result.vsixPath));
+    assertEquals(JSON.parse(entries.get("extension/package.json")!).icon, "images/icon.png");
+    const vsixManifest = entries.get("extension.vsixmanifest")!;
+    assertStringIncludes(vsixManifest, `Id="ext" Version="1.2.3" Publisher="acme"`);
+    assertStringIncludes(vsixManifest, "<DisplayName>Ext &amp; Co</DisplayName>");
+    assertStringIncludes(vsixManifest, `Id="Microsoft.VisualStudio.Code.Engine" Value="^1.80.0"`);
+    assertStringIncludes(vsixManifest, "<Icon>extension/images/icon.png</Icon>");
+    assertStringIncludes(
+      vsixManifest,
+      `Type="Microsoft.VisualStudio.Services.Content.Changelog" Path="extension/CHANGELOG.md"`,
+    );
+    assertStringIncludes(
+      entries.get("[Content_Types].xml")!,
+      `<Default Extension=".png" ContentType="image/png" />`,
+    );
+  });
+
+  it("should reject a bundle excluded by .vscodeignore", async () => {
+    await writeFiles({
+      "package.json": JSON.stringify(MANIFEST),
+      "out/extension.js": "",
+      ".vscodeignore": "out/**",
+    });
+    await assertRejects(
+      () => packageExtension({ projectDir: TEST_DIR, bundle: bundleAt("out/extension.js") }),
+      Error,
+      "The bundle out/extension.js is excluded from the package by .vscodeignore",
+    );
+  });
+
+  it("should require a publisher", async () => {
+    const { publisher: _, ...manifest } = MANIFEST;
+    await writeFiles({ "package.json": JSON.stringify(manifest) });
+    await assertRejects(
+      () => packageExtension({ projectDir: TEST_DIR }),
+      Error,
+      `package.json is missing "publisher"`,
+    );
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @fileoverview Tests for the web compatibility validator
+ */
+
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import { join } from "jsr:@std/path";
+
+import {
+  analyzeWebCompatibility,
+  formatCompatIssuesJson,
+  validateWebCompatibility,
+} from "../mod.ts";
+
+const TEST_DIR = join(Deno.makeTempDirSync(), "validate-test");
+const ENTRY = join(TEST_DIR, "extension.ts");
+
+describe("analyzeWebCompatibility", () => {
+  beforeEach(async () => {
+    await Deno.mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    try {
+      await Deno.remove(TEST_DIR, { recursive: true });
+    } catch (_) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should report the location, rule and suggestion of an import", async () => {
+    await Deno.writeTextFile(
+      ENTRY,
+      `export function activate() {}\nimport { readFileSync } from "fs";\n`,
+    );
+
+    const [issue] = await analyzeWebCompatibility(ENTRY);
+
+    assertEquals(issue.file, ENTRY);
+    assertEquals(issue.line, 2);
+    assertEquals(issue.column, 30);
+    assertEquals(issue.ruleId, "node-builtin-import");
+    assertEquals(issue.severity, "error");
+    assertEquals(issue.specifier, "fs");
+    assertEquals(issue.suggestion, "Use vscode.workspace.fs to read and write files.");
+  });
+
+  it("should keep the string view of validateWebCompatibility", async () => {
+    await Deno.writeTextFile(ENTRY, `import * as os from "os";\n`);
+
+    assertEquals(await validateWebCompatibility(ENTRY), [
+      `${ENTRY}: imports Node builtin module 'os'`,
+    ]);
+  });
+
+  it("should serialize issues as JSON", async () => {
+    await Deno.writeTextFile(ENTRY, `const cwd = Deno.cwd();\n`);
+
+    const issues = await analyzeWebCompatibility(ENTRY);
+
+    assertEquals(JSON.parse(formatCompatIssuesJson(issues)), [{
+      file: ENTRY,
+      line: 1,
+      column: 13,
+      severity: "error",
+      ruleId: "deno-namespace",
+      message: "uses 'Deno.*' APIs that are not available in web extensions",
+      specifier: "Deno",
+      importChain: [ENTRY],
+    }]);
+  });
+
+  it("should detect prefixed, subpath, re-exported and dynamic builtins", async () => {
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `import { readFile } from "node:fs";`,
+        `import { writeFile } from "fs/promises";`,
+        `export { platform } from "os";`,
+        `const cp = await import("child_process");`,
+      ].join("\n"),
+    );
+
+    const issues = await analyzeWebCompatibility(ENTRY);
+
+    assertEquals(issues.map((issue) => [issue.line, issue.specifier]), [
+      [1, "node:fs"],
+      [2, "fs/promises"],
+      [3, "os"],
+      [4, "child_process"],
+    ]);
+  });
+
+  it("should only analyze modules reachable from the entry point", async () => {
+    await Deno.writeTextFile(
+      ENTRY,
+      `import { helper } from "./lib/helper.js";\nexport function activate() { helper(); }`,
+    );
+    await Deno.mkdir(join(TEST_DIR, "lib"));
+    await Deno.writeTextFile(
+      join(TEST_DIR, "lib", "helper.js"),
+      `const os = require("os");\nexport function helper() {}`,
+    );
+    // Never imported by the extension, so never shipped
+    await Deno.writeTextFile(
+      join(TEST_DIR, "extension_test.ts"),
+      `import { assert } from "node:assert";\nDeno.test("x", () => {});`,
+    );
+
+    const issues = await analyzeWebCompatibility(ENTRY);
+
+    assertEquals(issues.length, 1);
+    assertEquals(issues[0].ruleId, "node-builtin-require");
+    assertEquals(issues[0].importChain, [ENTRY, join(TEST_DIR, "lib", "helper.js")]);
+  });
+
+  it("should ignore Deno mentions in comments, strings and types", async () => {
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `// Deno.readFile is not available here`,
+        `const hint = "use Deno.cwd() on desktop";`,
+        `type Cwd = typeof Deno.cwd;`,
+        `import type { Stats } from "fs";`,
+        `export function activate() { console.log(hint); }`,
+      ].join("\n"),
+    );
+
+    assertEquals(await analyzeWebCompatibility(ENTRY), []);
+  });
+
+  it("should detect Node-only globals with portable alternatives", async () => {
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `const token = process.env.TOKEN;`,
+        `const icon = __dirname + "/icon.png";`,
+        `const bytes = Buffer.from("hi");`,
+        `setImmediate(() => {});`,
+        `global.value = 1;`,
+        `const worker = require.resolve("./worker.js");`,
+      ].join("\n"),
+    );
+
+    const issues = await analyzeWebCompatibility(ENTRY);
+
+    assertEquals(issues.map((issue) => [issue.ruleId, issue.specifier]), [
+      ["node-global-process", "process.env"],
+      ["node-global-dirname", "__dirname"],
+      ["node-global-buffer", "Buffer.from"],
+      ["node-global-set-immediate", "setImmediate"],
+      ["node-global-global", "global.value"],
+      ["node-require-resolve", "require.resolve"],
+    ]);
+    assertEquals(
+      issues[1].suggestion,
+      "Use context.extensionUri with vscode.Uri.joinPath to locate extension files.",
+    );
+  });
+
+  it("should not report shadowed or feature-detected globals", async () => {
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `const isNode = typeof process !== "undefined";`,
+        `function run(Buffer: Uint8Array) { return Buffer.length; }`,
+        `const options = { global: true, process: "x" };`,
+        `export function activate() { console.log(isNode, run, options.global); }`,
+      ].join("\n"),
+    );
+
+    assertEquals(await analyzeWebCompatibility(ENTRY), []);
+  });
+
+  it("should warn about synchronous XMLHttpRequests", async () => {
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `const xhr = new XMLHttpRequest();`,
+        `xhr.open("GET", "https://example.com", false);`,
+        `xhr.open("GET", "https://example.com", true);`,
+      ].join("\n"),
+    );
+
+    const issues = await analyzeWebCompatibility(ENTRY);
+
+    assertEquals(issues.map((issue) => [issue.line, issue.ruleId, issue.severity]), [
+      [2, "sync-xhr", "warning"],
+    ]);
+  });
+
+  it("should apply rule settings from options", async () => {
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `import { readFile } from "fs";`,
+        `const cwd = Deno.cwd();`,
+      ].join("\n"),
+    );
+
+    const issues = await analyzeWebCompatibility(ENTRY, {
+      configFile: false,
+      rules: { "node-builtin-import": "warning", "deno-namespace": "off" },
+    });
+
+    assertEquals(issues.map((issue) => [issue.ruleId, issue.severity]), [
+      ["node-builtin-import", "warning"],
+    ]);
+  });
+
+  it("should read allowlists from the bundler section of deno.json", async () => {
+    await Deno.writeTextFile(
+      join(TEST_DIR, "deno.json"),
+      JSON.stringify({
+        bundler: {
+          compat: { allowModules: ["crypto", "process"], allowFiles: ["desktop/**"] },
+        },
+      }),
+    );
+    await Deno.mkdir(join(TEST_DIR, "desktop"));
+    await Deno.writeTextFile(join(TEST_DIR, "desktop", "host.ts"), `export { spawn } from "child_process";
+`);
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `import "./desktop/host.ts";`,
+        `import { randomUUID } from "node:crypto";`,
+        `import { readFile } from "fs";`,
+        `console.log(process.env.HOME);`,
+      ].join("\n"),
+    );
+
+    const issues = await analyzeWebCompatibility(ENTRY);
+
+    assertEquals(issues.map((issue) => [issue.file, issue.specifier]), [[ENTRY, "fs"]]);
+  });
+
+  it("should honor ignore-next-line comments", async () => {
+    await Deno.writeTextFile(
+      ENTRY,
+      [
+        `// vsce-bundler-ignore-next-line node-builtin-import`,
+        `import { readFile } from "fs";`,
+        `// vsce-bundler-ignore-next-line sync-xhr`,
+        `const cwd = Deno.cwd();`,
+        `// vsce-bundler-ignore-next-line`,
+        `const home = process.env.HOME;`,
+      ].join("\n"),
+    );
+
+    const issues = await analyzeWebCompatibility(ENTRY, { configFile: false });
+
+    assertEquals(issues.map((issue) => [issue.line, issue.ruleId]), [[4, "deno-namespace"]]);
+  });
+
+  it("should reject unknown rules", async () => {
+    await Deno.writeTextFile(ENTRY, `export function activate() {}\n`);
+
+    await assertRejects(
+      () => analyzeWebCompatibility(ENTRY, { rules: { "no-such-rule": "off" } }),
+      Error,
+      "Unknown web compatibility rule 'no-such-rule'",
+    );
+  });
+});
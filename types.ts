@@ -46,15 +46,28 @@ export interface BundleOptions {
 	 */
 	readonly outFile?: string;
 
+	/**
+	 * Backend that bundles the entry point and its dependencies:
+	 * - "emit": `@deno/emit`'s bundler (default)
+	 * - "esbuild": esbuild, with tree-shaking; imports are resolved through
+	 *   the module graph from `deno info` (import map, `jsr:`, `npm:`,
+	 *   `https:`) and read from Deno's local caches
+	 *
+	 * Both produce one ESM bundle that the remaining build steps work on.
+	 */
+	readonly bundler?: 'emit' | 'esbuild';
+
 	/**
 	 * Show verbose diagnostic and timing information during the build process.
 	 * Useful for debugging or understanding the bundling steps.
+	 * Configures the default reporter, see {@link BundleOptions.reporters}.
 	 */
 	readonly verbose?: boolean;
 
 	/**
 	 * Suppress all non-error output from the bundler.
 	 * When true, only errors will be logged.
+	 * Configures the default reporter, see {@link BundleOptions.reporters}.
 	 */
 	readonly quiet?: boolean;
 
@@ -71,12 +84,177 @@ export interface BundleOptions {
 	 */
 	readonly minifier?: 'esbuild' | 'terser';
 
+	/**
+	 * Source map to write for each bundle, mapping it back to the original
+	 * TypeScript sources through every build step (bundling, target
+	 * conversion and minification):
+	 * - "none": no source map
+	 * - "inline": embedded in the bundle as a data URL
+	 * - "external": written to `<bundle>.map` and linked from the bundle
+	 * - "hidden": written to `<bundle>.map` without a link, e.g. for error
+	 *   reporting services
+	 *
+	 * Defaults to "external" when minifying and "none" otherwise.
+	 */
+	readonly sourcemap?: SourceMapMode;
+
+	/**
+	 * Embed the original source code in the source map (`sourcesContent`),
+	 * so that it can be shown without access to the project (default: false).
+	 */
+	readonly sourcesContent?: boolean;
+
+	/**
+	 * Attribute the bytes of each bundle to the modules and packages they
+	 * come from. Writes `bundle-report.json` and a self-contained
+	 * `bundle-report.html` treemap to the output directory and returns the
+	 * analysis in {@link BundleResult.analysis} (default: false).
+	 */
+	readonly analyze?: boolean;
+
+	/**
+	 * Size limits for each written bundle. A build over budget fails with a
+	 * `BudgetExceededError`; its bundles are written, but neither the build
+	 * cache nor the size baseline of the previous build is updated.
+	 */
+	readonly budget?: SizeBudget;
+
+	/**
+	 * Constants to substitute for global identifiers and member expressions
+	 * at bundle time, e.g. `{ __DEV__: false, "process.env.NODE_ENV":
+	 * '"production"' }`. String values are JavaScript expressions (JSON or an
+	 * identifier), so string constants need inner quotes; other values are
+	 * serialized as JSON. The substitution happens before minification and
+	 * removes the branches it makes unreachable.
+	 */
+	readonly define?: Readonly<Record<string, DefineValue>>;
+
 	/**
 	 * Enable incremental build cache for faster rebuilds.
-	 * The cache is stored in the outDir as .build-cache.json.
+	 * The cache is stored in the outDir as .build-cache.json and tracks the
+	 * modules reachable from the entry point.
 	 */
 	readonly useCache?: boolean;
 
+	/**
+	 * Extension hosts to build for. When set, one CommonJS bundle per target
+	 * is written to `outDir/<target>/<outFile>` from the same entry point:
+	 * - "node": the desktop extension host (`main` in package.json); Node
+	 *   built-in modules stay external besides {@link BundleOptions.external}
+	 * - "webworker": the web extension host (`browser` in package.json);
+	 *   only {@link BundleOptions.external} may stay external
+	 *
+	 * When unset, a single ESM bundle is written to `outDir/<outFile>`.
+	 */
+	readonly targets?: readonly BundleTarget[];
+
+	/**
+	 * Derive the build from the extension manifest (`package.json` in
+	 * projectDir) instead of outDir, outFile and targets: `main` is built for
+	 * the "node" target and `browser` for the "webworker" target, at exactly
+	 * the paths they declare, with the language level inferred from
+	 * `engines.vscode`. The build fails if the manifest is missing or declares
+	 * neither field.
+	 */
+	readonly manifest?: boolean;
+
+	/**
+	 * Without manifest mode, check that `main` and `browser` in the extension
+	 * manifest (`package.json` in projectDir) point at the bundles this build
+	 * writes – `main` at the "node" bundle, `browser` at the "webworker" one,
+	 * or either at the bundle of a build without targets. A mismatch fails
+	 * the build in the `verify` phase, before it is cached (default: false).
+	 */
+	readonly verifyManifest?: boolean;
+
+	/**
+	 * Modules provided by the extension host at runtime (defaults to
+	 * `["vscode"]`). Imports of these specifiers, including subpaths, are never
+	 * bundled but kept as runtime imports (ESM) or `require` calls (targets).
+	 * The build fails if an external resolves to an npm package.
+	 */
+	readonly external?: readonly string[];
+
+	/**
+	 * Audit web compatibility as part of the build (defaults to "off").
+	 * - "off": skip the audit
+	 * - "warn": report issues in {@link BundleResult.diagnostics} and the
+	 *   build messages without failing the build
+	 * - "error": like "warn", but fail the build before any output is
+	 *   written when an issue with severity "error" is found
+	 *
+	 * The audit follows the module graph of the entry point, i.e. exactly the
+	 * modules that end up in the bundle.
+	 */
+	readonly validate?: ValidateMode;
+
+	/**
+	 * Type-check the entry point's module graph before bundling (defaults to
+	 * "off"), since bundling only strips types:
+	 * - "off": skip the check
+	 * - "warn": report type errors in {@link BundleResult.typeDiagnostics}
+	 *   and the build messages without failing the build
+	 * - "error": like "warn", but fail the build before any output is
+	 *   written when there is a type error
+	 *
+	 * The check runs `deno check` with the project's configuration; `vscode`
+	 * is checked against the `@typed/vscode` declarations unless the
+	 * project's import map maps it. Within one process, repeated checks
+	 * (e.g. in {@link WatchOptions watch mode}) re-check only changed files
+	 * and the files importing them.
+	 */
+	readonly typeCheck?: TypeCheckMode;
+
+	/**
+	 * Rule configuration for the web compatibility audit, merged over the
+	 * `bundler.compat` section of the project's `deno.json`.
+	 * Only used when {@link BundleOptions.validate} is not "off".
+	 */
+	readonly compat?: CompatOptions;
+
+	/**
+	 * Plugins hooking into the build phases, run in order. See
+	 * {@link BundlePlugin}.
+	 */
+	readonly plugins?: readonly BundlePlugin[];
+
+	/**
+	 * What to do when another build holds the lock of the output directory
+	 * (defaults to "wait"). See {@link LockPolicy}.
+	 */
+	readonly lock?: LockPolicy;
+
+	/**
+	 * How long to wait for the lock of the output directory in milliseconds
+	 * when {@link BundleOptions.lock} is "wait" (defaults to 60000).
+	 */
+	readonly lockTimeoutMs?: number;
+
+	/**
+	 * Cancels the build. It stops before the next phase and rejects with a
+	 * `BundleError` with code `"ABORTED"`; outputs already written are
+	 * complete files, and the build cache is not updated.
+	 */
+	readonly signal?: AbortSignal;
+
+	/**
+	 * Resolve remote modules only from the project's `vendor/` directory and
+	 * Deno's module cache, never from the network (defaults to false). A
+	 * build missing modules fails with code `"MODULE_NOT_CACHED"`, listing
+	 * all of them.
+	 */
+	readonly offline?: boolean;
+
+	/**
+	 * Receivers of the build's {@link BuildEvent}s, called in order.
+	 *
+	 * Defaults to the pretty reporter (`prettyReporter`) configured with
+	 * {@link BundleOptions.log}, {@link BundleOptions.logError},
+	 * {@link BundleOptions.verbose} and {@link BundleOptions.quiet}; those
+	 * options have no effect when reporters are given.
+	 */
+	readonly reporters?: readonly BuildReporter[];
+
 	/**
 	 * Logger function for standard output (defaults to console.log).
 	 * Can be customized for integration with different logging systems.
@@ -90,13 +268,432 @@ export interface BundleOptions {
 	readonly logError?: (message: string) => void;
 
 	/**
-	 * Custom bundle implementation (used in unit tests).
+	 * Custom bundle implementation (used in unit tests), replacing the
+	 * {@link BundleOptions.bundler} backend.
 	 * Defaults to Deno.emit's bundle function.
 	 * @internal
 	 */
 	readonly bundleFn?: typeof EmitBundle;
 }
 
+/**
+ * How a build handles the lock of its output directory, which serializes
+ * builds writing the same outputs:
+ * - `"wait"`: wait until other builds release it, up to
+ *   {@link BundleOptions.lockTimeoutMs}
+ * - `"fail"`: fail with `"LOCKED"` if another build holds it
+ * - `"off"`: do not lock
+ */
+export type LockPolicy = 'wait' | 'fail' | 'off';
+
+/**
+ * Extension host a bundle is built for, see {@link BundleOptions.targets}.
+ */
+export type BundleTarget = 'node' | 'webworker';
+
+/**
+ * Output of a single target of a build.
+ */
+export interface TargetResult {
+	/** Absolute path to the target's bundle. */
+	bundlePath: string;
+	/** Size of the target's bundle in bytes. */
+	size: number;
+}
+
+/**
+ * How `bundleExtension` writes source maps, see
+ * {@link BundleOptions.sourcemap}.
+ */
+export type SourceMapMode = 'none' | 'inline' | 'external' | 'hidden';
+
+/**
+ * How `bundleExtension` enforces web compatibility, see
+ * {@link BundleOptions.validate}.
+ */
+export type ValidateMode = 'off' | 'warn' | 'error';
+
+/**
+ * How `bundleExtension` enforces type correctness, see
+ * {@link BundleOptions.typeCheck}.
+ */
+export type TypeCheckMode = 'off' | 'warn' | 'error';
+
+/**
+ * A type error reported by the build's type check.
+ */
+export interface TypeDiagnostic {
+	/** TypeScript error code, e.g. `2322`. */
+	readonly code: number;
+
+	/** The error message, including chained explanations. */
+	readonly message: string;
+
+	/**
+	 * Absolute path of the file containing the error, or the URL of a remote
+	 * module. Undefined for errors not tied to a file.
+	 */
+	readonly file?: string;
+
+	/** Line of the error (1-based). */
+	readonly line?: number;
+
+	/** Column of the error (1-based). */
+	readonly column?: number;
+}
+
+/**
+ * Reason a build could not be served from the incremental build cache.
+ *
+ * - `"disabled"`: caching was turned off with `useCache: false`
+ * - `"hash-failed"`: the module graph could not be resolved or hashed
+ * - `"no-cache"`: there is no (readable) cache record yet
+ * - `"bundler-version"`: the cache was written by another bundler version
+ * - `"options-changed"`: an output-affecting option changed (entry point,
+ *   output filename, bundler backend, minification, source maps, targets,
+ *   manifest mode, externals, validation, type check, plugins)
+ * - `"lockfile-changed"`: `deno.lock` changed, e.g. a remote dependency was upgraded
+ * - `"sources-changed"`: a module of the entry point's module graph (or a
+ *   project config file) was added, removed or modified
+ * - `"output-missing"`: a previously written output no longer exists
+ * - `"output-modified"`: a previously written output was changed on disk
+ */
+export type CacheMissReason =
+	| 'disabled'
+	| 'hash-failed'
+	| 'no-cache'
+	| 'bundler-version'
+	| 'options-changed'
+	| 'lockfile-changed'
+	| 'sources-changed'
+	| 'output-missing'
+	| 'output-modified';
+
+/**
+ * Phase of `bundleExtension`, as timed by {@link PhaseStartEvent} and
+ * {@link PhaseEndEvent} and named by a failed build's {@link BundleErrorCode}:
+ * - `"resolve"`: reading the manifest and resolving the entry point
+ * - `"lock"`: waiting for the lock of the output directory
+ * - `"hash"`: fingerprinting the sources and options for the build cache
+ * - `"cache"`: checking and reusing a cached build
+ * - `"audit"`: the web compatibility audit
+ * - `"check"`: the type check
+ * - `"bundle"`: bundling the entry point and its dependencies
+ * - `"define"`: substituting compile-time defines
+ * - `"transform"`: plugin transformations
+ * - `"convert"`: converting the bundle for an extension host
+ * - `"minify"`: minification
+ * - `"write"`: writing bundles, source maps, reports and the cache
+ * - `"verify"`: checking size budgets and the manifest's outputs
+ */
+export type BuildPhase =
+	| 'resolve'
+	| 'lock'
+	| 'hash'
+	| 'cache'
+	| 'audit'
+	| 'check'
+	| 'bundle'
+	| 'define'
+	| 'transform'
+	| 'convert'
+	| 'minify'
+	| 'write'
+	| 'verify';
+
+/**
+ * Stable code of a failed build, see `BundleError`:
+ * - `"ENTRY_NOT_FOUND"`: the entry point does not exist
+ * - `"MANIFEST_INVALID"`: `package.json` is unreadable or its outputs are wrong
+ * - `"RESOLVE_FAILED"`: an import could not be resolved or loaded
+ * - `"SYNTAX_ERROR"`: a module could not be parsed
+ * - `"BUNDLE_FAILED"`: the bundler failed for another reason
+ * - `"VALIDATION_FAILED"`: the web compatibility audit reported errors
+ * - `"TYPE_ERROR"`: the type check reported errors
+ * - `"DEFINE_FAILED"`: a compile-time define is invalid
+ * - `"CONVERT_FAILED"`: the bundle cannot be converted for an extension host
+ * - `"MINIFY_FAILED"`: the minifier failed
+ * - `"WRITE_FAILED"`: an output could not be written
+ * - `"PLUGIN_FAILED"`: a plugin hook threw, see `PluginError`
+ * - `"BUDGET_EXCEEDED"`: a bundle exceeds its size budget, see
+ *   `BudgetExceededError`
+ * - `"LOCKED"`: another build holds the lock of the output directory
+ * - `"ABORTED"`: the build was cancelled through {@link BundleOptions.signal}
+ * - `"INTEGRITY_FAILED"`: a remote module does not match the lockfile, or is
+ *   missing from a frozen one
+ * - `"MODULE_NOT_CACHED"`: an {@link BundleOptions.offline} build found remote
+ *   modules neither vendored nor cached
+ */
+export type BundleErrorCode =
+	| 'ENTRY_NOT_FOUND'
+	| 'MANIFEST_INVALID'
+	| 'RESOLVE_FAILED'
+	| 'SYNTAX_ERROR'
+	| 'BUNDLE_FAILED'
+	| 'VALIDATION_FAILED'
+	| 'TYPE_ERROR'
+	| 'DEFINE_FAILED'
+	| 'CONVERT_FAILED'
+	| 'MINIFY_FAILED'
+	| 'WRITE_FAILED'
+	| 'PLUGIN_FAILED'
+	| 'BUDGET_EXCEEDED'
+	| 'LOCKED'
+	| 'ABORTED'
+	| 'INTEGRITY_FAILED'
+	| 'MODULE_NOT_CACHED';
+
+/**
+ * Details of a `BundleError`.
+ */
+export interface BundleErrorOptions {
+	/** Stable code of the failure. */
+	readonly code: BundleErrorCode;
+	/** Build phase that failed. */
+	readonly phase: BuildPhase;
+	/**
+	 * Absolute path of the file the failure concerns, or the URL of a
+	 * remote module.
+	 */
+	readonly file?: string;
+	/** Line in `file` (1-based), where known. */
+	readonly line?: number;
+	/** Column in `file` (1-based), where known. */
+	readonly column?: number;
+	/** The underlying error. */
+	readonly cause?: unknown;
+}
+
+/**
+ * Level of a {@link BuildMessageEvent}:
+ * - `"debug"`: progress details, shown by the pretty reporter when verbose
+ * - `"info"`: informational messages, e.g. from plugins
+ * - `"warning"`: problems that do not fail the build
+ * - `"error"`: problems that fail the build, reported before it fails
+ */
+export type BuildMessageLevel = 'debug' | 'info' | 'warning' | 'error';
+
+/** A build started. */
+export interface BuildStartEvent {
+	readonly type: 'build-start';
+	/** Time of the event in milliseconds since the Unix epoch. */
+	readonly time: number;
+	/** Absolute path to the extension project root. */
+	readonly projectDir: string;
+	/** Absolute path to the entry point, before plugins resolve it. */
+	readonly entry: string;
+}
+
+/** A build phase started. */
+export interface PhaseStartEvent {
+	readonly type: 'phase-start';
+	/** Time of the event in milliseconds since the Unix epoch. */
+	readonly time: number;
+	/** The phase. */
+	readonly phase: BuildPhase;
+	/** Absolute path of the bundle, for phases that run per bundle. */
+	readonly file?: string;
+}
+
+/** A build phase ended, successfully or not. */
+export interface PhaseEndEvent {
+	readonly type: 'phase-end';
+	/** Time of the event in milliseconds since the Unix epoch. */
+	readonly time: number;
+	/** The phase. */
+	readonly phase: BuildPhase;
+	/** Absolute path of the bundle, for phases that run per bundle. */
+	readonly file?: string;
+	/** Time spent in the phase in milliseconds. */
+	readonly durationMs: number;
+}
+
+/** The build decided whether to reuse the cached build. */
+export interface CacheEvent {
+	readonly type: 'cache';
+	/** Time of the event in milliseconds since the Unix epoch. */
+	readonly time: number;
+	/** Whether the cached build is reused. */
+	readonly hit: boolean;
+	/** Why the cached build is not reused; unset on a hit. */
+	readonly reason?: CacheMissReason;
+}
+
+/**
+ * A message of the build. Info and warning messages are also recorded in
+ * {@link BundleResult.messages}.
+ */
+export interface BuildMessageEvent {
+	readonly type: 'message';
+	/** Time of the event in milliseconds since the Unix epoch. */
+	readonly time: number;
+	/** Level of the message. */
+	readonly level: BuildMessageLevel;
+	/** The message as plain text, including its location if it has one. */
+	readonly message: string;
+	/** Absolute path of the file the message concerns, where known. */
+	readonly file?: string;
+	/** Line in `file` (1-based), where known. */
+	readonly line?: number;
+	/** Column in `file` (1-based), where known. */
+	readonly column?: number;
+}
+
+/** A file written to the output directory. */
+export interface OutputEvent {
+	readonly type: 'output';
+	/** Time of the event in milliseconds since the Unix epoch. */
+	readonly time: number;
+	/**
+	 * What the file is: a bundle, its source map, a size report or an asset
+	 * emitted by a plugin.
+	 */
+	readonly kind: 'bundle' | 'sourcemap' | 'report' | 'asset';
+	/** Absolute path of the file. */
+	readonly path: string;
+	/** Size of the file in bytes. */
+	readonly size: number;
+	/** Extension host the bundle is built for, for bundles of a target. */
+	readonly target?: BundleTarget;
+	/** Size of a bundle compared with the previous build. */
+	readonly sizes?: SizeComparison;
+}
+
+/** A build completed. */
+export interface BuildEndEvent {
+	readonly type: 'build-end';
+	/** Time of the event in milliseconds since the Unix epoch. */
+	readonly time: number;
+	/** Time spent on the build in milliseconds. */
+	readonly durationMs: number;
+	/** Whether the cached build was reused. */
+	readonly fromCache: boolean;
+	/** Absolute path to the (first) bundle. */
+	readonly bundlePath: string;
+}
+
+/** A build failed; `bundleExtension` rejects with the matching `BundleError`. */
+export interface BuildFailedEvent {
+	readonly type: 'build-failed';
+	/** Time of the event in milliseconds since the Unix epoch. */
+	readonly time: number;
+	/** Time spent on the build in milliseconds. */
+	readonly durationMs: number;
+	/** Stable code of the failure. */
+	readonly code: BundleErrorCode;
+	/** Build phase that failed. */
+	readonly phase: BuildPhase;
+	/** Message of the error. */
+	readonly message: string;
+	/** File the failure concerns, where known. */
+	readonly file?: string;
+	/** Line in `file` (1-based), where known. */
+	readonly line?: number;
+	/** Column in `file` (1-based), where known. */
+	readonly column?: number;
+}
+
+/**
+ * Event of a `bundleExtension` run, passed to its
+ * {@link BundleOptions.reporters}. Every event is plain JSON data.
+ *
+ * A build reports `build-start`, then a `phase-start` and `phase-end` pair
+ * per phase (`convert`, `transform`, `minify` and `write` once per bundle),
+ * the `cache` decision after the `hash` phase, messages as they occur, an
+ * `output` per written file and finally `build-end` or `build-failed`.
+ */
+export type BuildEvent =
+	| BuildStartEvent
+	| PhaseStartEvent
+	| PhaseEndEvent
+	| CacheEvent
+	| BuildMessageEvent
+	| OutputEvent
+	| BuildEndEvent
+	| BuildFailedEvent;
+
+/**
+ * Receives the {@link BuildEvent}s of a build, see
+ * {@link BundleOptions.reporters}. Reporters are called synchronously, so
+ * they should not block.
+ *
+ * @example Charting phase timings
+ * ```ts
+ * const timings: Record<string, number> = {};
+ * await bundleExtension({
+ *   projectDir: "/path/to/extension",
+ *   reporters: [(event) => {
+ *     if (event.type === "phase-end") {
+ *       timings[event.phase] = (timings[event.phase] ?? 0) + event.durationMs;
+ *     }
+ *   }],
+ * });
+ * ```
+ */
+export type BuildReporter = (event: BuildEvent) => void;
+
+/**
+ * Options for the pretty reporter (`prettyReporter`), the default reporter of
+ * `bundleExtension`.
+ */
+export interface PrettyReporterOptions {
+	/** Sink for regular output (defaults to `console.log`). */
+	readonly log?: (message: string) => void;
+	/** Sink for errors (defaults to `console.error`). */
+	readonly logError?: (message: string) => void;
+	/** Also print progress details, bundle sizes and the build time. */
+	readonly verbose?: boolean;
+	/** Print errors only; overrides `verbose`. */
+	readonly quiet?: boolean;
+}
+
+/**
+ * Options for watching a VS Code extension and rebuilding it on change.
+ *
+ * Accepts every {@link BundleOptions} field; each rebuild is performed with
+ * the same options.
+ *
+ * @example Watching an extension
+ * ```ts
+ * import { watchExtension } from "@vsce/bundler";
+ *
+ * const watcher = watchExtension({ projectDir: "/path/to/extension" });
+ *
+ * for await (const build of watcher.results) {
+ *   if (build instanceof Error) console.error(build.message);
+ *   else console.log(`Rebuilt ${build.bundlePath}`);
+ * }
+ * ```
+ */
+export interface WatchOptions extends BundleOptions {
+	/**
+	 * Quiet period in milliseconds after the last file change before a
+	 * rebuild starts (defaults to 100).
+	 * Bursts of changes within this window trigger a single rebuild.
+	 */
+	readonly debounceMs?: number;
+}
+
+/**
+ * Handle to a running watcher created by `watchExtension`.
+ */
+export interface WatchHandle {
+	/**
+	 * Results of each build, in order: the initial build followed by one entry
+	 * per debounced rebuild. Failed builds are yielded as `Error` values
+	 * instead of ending the iteration.
+	 * The iteration completes once the watcher is stopped.
+	 */
+	readonly results: AsyncIterable<BundleResult | Error>;
+
+	/**
+	 * Stop watching the project directory.
+	 * A build that is already running is allowed to finish and its result is
+	 * still yielded.
+	 */
+	stop(): void;
+}
+
 /**
  * Result of a bundle operation.
  *
@@ -128,8 +725,551 @@ export interface BundleResult {
 	fromCache: boolean;
 
 	/**
-	 * Warnings or info messages recorded during the build.
-	 * Contains any non-error messages generated during bundling.
+	 * Why the cached bundle could not be reused.
+	 * Undefined when the bundle was served from cache.
+	 */
+	cacheMissReason?: CacheMissReason;
+
+	/**
+	 * Warnings or info messages recorded during the build, as plain text:
+	 * the `info` and `warning` {@link BuildMessageEvent}s.
 	 */
 	messages: string[];
+
+	/**
+	 * Bundle path and size per target, when {@link BundleOptions.targets} is
+	 * set. `bundlePath` and `size` then describe the first target.
+	 */
+	targets?: Partial<Record<BundleTarget, TargetResult>>;
+
+	/**
+	 * Web compatibility issues found by the build's audit.
+	 * Undefined when {@link BundleOptions.validate} is "off".
+	 */
+	diagnostics?: CompatIssue[];
+
+	/**
+	 * Type errors found by the build's type check.
+	 * Undefined when {@link BundleOptions.typeCheck} is "off".
+	 */
+	typeDiagnostics?: TypeDiagnostic[];
+
+	/**
+	 * Size breakdown per written bundle, when {@link BundleOptions.analyze}
+	 * is set.
+	 */
+	analysis?: BundleAnalysis[];
+
+	/**
+	 * Size of each written bundle compared with the previous build, whose
+	 * sizes are kept in `.build-sizes.json` next to the build cache. A
+	 * cached build compares equal to the build it reuses.
+	 */
+	sizes?: SizeComparison[];
+
+	/**
+	 * Expressions substituted by {@link BundleOptions.define}, by name.
+	 * Undefined when no defines were set.
+	 */
+	defines?: Record<string, string>;
+
+	/**
+	 * Absolute paths of the files plugins emitted with
+	 * {@link PluginContext.emitAsset}.
+	 */
+	assets?: string[];
+}
+
+/**
+ * A plugin for `bundleExtension`: a name plus hooks that run around the
+ * build phases, in the order listed here. Every hook is optional and may be
+ * async; hooks of several plugins run in the order of
+ * {@link BundleOptions.plugins}, each seeing the result of the previous one.
+ *
+ * Plugins take part in the build cache through their `name` and
+ * `cacheKey`: a cached build is reused (and only `cacheHit` runs) while both
+ * and the sources are unchanged.
+ *
+ * @example A license banner plugin
+ * ```ts
+ * import { type BundlePlugin, bundleExtension } from "@vsce/bundler";
+ *
+ * const banner = (text: string): BundlePlugin => ({
+ *   name: "license-banner",
+ *   cacheKey: text,
+ *   beforeMinify: (code) => `/*! ${text} *\/\n${code}`,
+ *   afterWrite: async (_outputs, context) => {
+ *     await context.emitAsset("LICENSE.txt", text);
+ *   },
+ * });
+ *
+ * await bundleExtension({
+ *   projectDir: "/path/to/extension",
+ *   plugins: [banner("© Example Corp. MIT License")],
+ * });
+ * ```
+ */
+export interface BundlePlugin {
+	/** Plugin name, used in messages, errors and the cache fingerprint. */
+	readonly name: string;
+
+	/**
+	 * Changes whenever the plugin's output would change, e.g. a hash of its
+	 * options, so that cached builds are not reused across such changes.
+	 */
+	readonly cacheKey?: string;
+
+	/**
+	 * Resolve the absolute path of the entry point. Return a path to
+	 * replace it, or nothing to keep it.
+	 */
+	resolveEntry?(
+		entry: string,
+		context: PluginContext,
+	): string | void | Promise<string | void>;
+
+	/**
+	 * Runs after a cached build was reused. No other hook runs for that
+	 * build.
+	 */
+	cacheHit?(
+		result: BundleResult,
+		context: PluginContext,
+	): void | Promise<void>;
+
+	/** Runs after the audit, right before the entry point is bundled. */
+	beforeBundle?(entry: string, context: PluginContext): void | Promise<void>;
+
+	/**
+	 * Transform the emitted ESM bundle, after defines are substituted and
+	 * before it is converted for each target. With the esbuild backend, runs
+	 * once more for the `webworker` bundle, which resolves npm packages to
+	 * their browser builds.
+	 */
+	transform?(
+		code: string,
+		context: PluginContext,
+	): PluginTransformResult | Promise<PluginTransformResult>;
+
+	/**
+	 * Transform a bundle right before it is minified – or, without
+	 * minification, written.
+	 */
+	beforeMinify?(
+		code: string,
+		output: PluginOutput,
+		context: PluginContext,
+	): PluginTransformResult | Promise<PluginTransformResult>;
+
+	/** Runs after all bundles have been written. */
+	afterWrite?(
+		outputs: readonly PluginOutput[],
+		context: PluginContext,
+	): void | Promise<void>;
+}
+
+/**
+ * Result of a transforming plugin hook: the new code, optionally with a
+ * source map from it to the hook's input (keeps source maps accurate when
+ * lines or columns move), or nothing to keep the code unchanged.
+ */
+export type PluginTransformResult =
+	| string
+	| { code: string; map?: string }
+	| void;
+
+/**
+ * A bundle of the build, as passed to plugin hooks.
+ */
+export interface PluginOutput {
+	/** Path of the bundle relative to the output directory. */
+	readonly file: string;
+	/** Absolute path to the bundle. */
+	readonly bundlePath: string;
+	/** Extension host the bundle is built for; unset for the ESM bundle. */
+	readonly target?: BundleTarget;
+}
+
+/**
+ * Services available to plugin hooks.
+ */
+export interface PluginContext {
+	/** Absolute path to the extension project root. */
+	readonly projectDir: string;
+
+	/** Absolute path to the output directory. */
+	readonly outDir: string;
+
+	/** Options of the build. */
+	readonly options: BundleOptions;
+
+	/**
+	 * Report an `info` {@link BuildMessageEvent}, recorded in
+	 * {@link BundleResult.messages}.
+	 */
+	addMessage(message: string): void;
+
+	/**
+	 * Write an extra file into the output directory. It is tracked by the
+	 * build cache like the bundles.
+	 *
+	 * @param fileName Path relative to the output directory
+	 * @returns The absolute path of the written file
+	 */
+	emitAsset(fileName: string, contents: string | Uint8Array): Promise<string>;
+}
+
+/**
+ * Value of a compile-time define, see {@link BundleOptions.define}.
+ */
+export type DefineValue = string | number | boolean | null;
+
+/**
+ * Size limits for each bundle, see {@link BundleOptions.budget}.
+ *
+ * @example Failing CI on oversized or fast-growing bundles
+ * ```ts
+ * import { BudgetExceededError, bundleExtension } from "@vsce/bundler";
+ *
+ * try {
+ *   await bundleExtension({
+ *     projectDir: "/path/to/extension",
+ *     minify: true,
+ *     budget: { maxSize: 500 * 1024, maxGrowthPercent: 5 },
+ *   });
+ * } catch (err) {
+ *   if (!(err instanceof BudgetExceededError)) throw err;
+ *   for (const v of err.violations) console.error(`${v.bundlePath}: ${v.actual} > ${v.limit}`);
+ *   Deno.exit(1);
+ * }
+ * ```
+ */
+export interface SizeBudget {
+	/** Maximum size of a bundle in bytes. */
+	readonly maxSize?: number;
+
+	/** Maximum gzip-compressed size of a bundle in bytes. */
+	readonly maxGzipSize?: number;
+
+	/**
+	 * Maximum growth of a bundle's size compared with the previous build, in
+	 * percent. Not checked for the first build.
+	 */
+	readonly maxGrowthPercent?: number;
+}
+
+/**
+ * A bundle that exceeds a limit of its {@link SizeBudget}.
+ */
+export interface BudgetViolation {
+	/** Absolute path to the bundle. */
+	bundlePath: string;
+	/** Extension host the bundle is built for; unset for the ESM bundle. */
+	target?: BundleTarget;
+	/** The exceeded limit. */
+	budget: keyof SizeBudget;
+	/** Value of the limit. */
+	limit: number;
+	/** Measured value, in bytes or percent like the limit. */
+	actual: number;
+}
+
+/**
+ * Size of a bundle compared with the previous build.
+ */
+export interface SizeComparison {
+	/** Absolute path to the bundle. */
+	bundlePath: string;
+	/** Extension host the bundle is built for; unset for the ESM bundle. */
+	target?: BundleTarget;
+	/** Sizes of this build. */
+	current: SizeInfo;
+	/** Sizes of the previous build; undefined if the bundle is new. */
+	previous?: SizeInfo;
+	/** Growth of the raw size in percent; undefined if the bundle is new. */
+	growthPercent?: number;
+	/**
+	 * Modules whose raw size changed, largest change first. Only available
+	 * when both builds were analyzed ({@link BundleOptions.analyze}).
+	 */
+	modules?: ModuleSizeChange[];
+}
+
+/**
+ * Change of a module's raw size in a bundle between two builds.
+ */
+export interface ModuleSizeChange {
+	/** Module as in {@link ModuleSize.module}. */
+	module: string;
+	/** Raw bytes in the previous build; 0 for added modules. */
+	previous: number;
+	/** Raw bytes in this build; 0 for removed modules. */
+	current: number;
+}
+
+/**
+ * Where the bytes of a bundle come from.
+ *
+ * - `"local"`: a file of the project
+ * - `"remote"`: a module of a JSR, npm or URL dependency
+ * - `"generated"`: code the tools added, such as module wrappers
+ */
+export type ModuleKind = 'local' | 'remote' | 'generated';
+
+/**
+ * Raw and gzip sizes in bytes.
+ */
+export interface SizeInfo {
+	/** Uncompressed size. */
+	raw: number;
+	/** Size after gzip compression. */
+	gzip: number;
+}
+
+/**
+ * Raw, gzip and brotli sizes in bytes, measured for analyzed builds only
+ * ({@link BundleOptions.analyze}).
+ */
+export interface AnalyzedSizeInfo extends SizeInfo {
+	/** Size after brotli compression. */
+	brotli: number;
+}
+
+/**
+ * Bytes of a bundle attributed to one input module. Compressed sizes are
+ * measured for the module's code on its own, so they add up to more than
+ * the compressed bundle.
+ */
+export interface ModuleSize extends AnalyzedSizeInfo {
+	/** Path relative to the project root for local files, else the URL. */
+	module: string;
+	/** Origin of the code. */
+	kind: ModuleKind;
+	/** Package the module belongs to, e.g. `jsr:@std/path@1.0.8`. */
+	package?: string;
+}
+
+/**
+ * Bytes of a bundle attributed to one package.
+ */
+export interface PackageSize extends AnalyzedSizeInfo {
+	/** Package name, or `(local)` for the project's own files. */
+	name: string;
+	/** Number of modules of the package in the bundle. */
+	modules: number;
+}
+
+/**
+ * Size breakdown of a written bundle, see {@link BundleOptions.analyze}.
+ */
+export interface BundleAnalysis extends AnalyzedSizeInfo {
+	/** Absolute path to the bundle. */
+	bundlePath: string;
+	/** Extension host the bundle is built for; unset for the ESM bundle. */
+	target?: BundleTarget;
+	/** Modules contributing to the bundle, largest first. */
+	modules: ModuleSize[];
+	/** Packages contributing to the bundle, largest first. */
+	packages: PackageSize[];
+}
+
+/**
+ * Severity of a web compatibility issue.
+ *
+ * - `"error"`: the code will fail in the Web Extension runtime
+ * - `"warning"`: the code is likely to misbehave in the Web Extension runtime
+ * - `"info"`: informational finding
+ */
+export type CompatSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A single finding reported by the web compatibility audit.
+ *
+ * @example Structured web compatibility issue
+ * ```ts
+ * const issue: CompatIssue = {
+ *   file: "/path/to/extension/extension.ts",
+ *   line: 1,
+ *   column: 30,
+ *   ruleId: "node-builtin-import",
+ *   severity: "error",
+ *   message: "imports Node builtin module 'fs'",
+ *   specifier: "fs",
+ *   suggestion: "Use vscode.workspace.fs to read and write files.",
+ * };
+ * ```
+ */
+export interface CompatIssue {
+	/**
+	 * Absolute path of the file containing the issue, or the URL of a remote
+	 * module.
+	 */
+	readonly file: string;
+
+	/** Line of the offending code (1-based). */
+	readonly line: number;
+
+	/** Column of the offending code (1-based). */
+	readonly column: number;
+
+	/** Stable identifier of the rule that reported the issue. */
+	readonly ruleId: string;
+
+	/** Severity of the issue. */
+	readonly severity: CompatSeverity;
+
+	/** Human-readable description of the issue. */
+	readonly message: string;
+
+	/** Offending module specifier or API, when the issue concerns one. */
+	readonly specifier?: string;
+
+	/** Suggested web-compatible alternative, when one is known. */
+	readonly suggestion?: string;
+
+	/**
+	 * Modules that pull the offending file into the bundle, from the entry
+	 * point to the file itself: local paths, remote URLs and `npm:` packages.
+	 */
+	readonly importChain?: readonly string[];
+}
+
+/**
+ * Configured level of a validator rule: a severity, or `"off"` to disable it.
+ */
+export type CompatRuleSetting = CompatSeverity | 'off';
+
+/**
+ * Options for the web compatibility audit.
+ *
+ * The same settings can be stored in the project's `deno.json` (or
+ * `deno.jsonc`) under `bundler.compat`; options passed programmatically take
+ * precedence over rule levels from the file, and allowlists are combined.
+ *
+ * @example Configuring the audit in deno.json
+ * ```json
+ * {
+ *   "bundler": {
+ *     "compat": {
+ *       "rules": { "sync-xhr": "off", "node-global-process": "warning" },
+ *       "allowModules": ["path"],
+ *       "allowFiles": ["src/desktop/**"]
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export interface CompatOptions {
+	/**
+	 * Level per rule id. Rules not listed keep their default severity.
+	 */
+	readonly rules?: Readonly<Record<string, CompatRuleSetting>>;
+
+	/**
+	 * Modules and globals that may be used. An entry matches a Node builtin
+	 * by name (`"fs"` also allows `node:fs` and `fs/promises`), a global by
+	 * name (`"process"`), or an npm package by name, which allows everything
+	 * pulled in through that package.
+	 */
+	readonly allowModules?: readonly string[];
+
+	/**
+	 * Glob patterns of files whose issues are not reported, relative to the
+	 * directory of the config file (or of the entry point when there is no
+	 * config file).
+	 */
+	readonly allowFiles?: readonly string[];
+
+	/**
+	 * Path of the config file to read `bundler.compat` settings from.
+	 * Defaults to the nearest `deno.json`/`deno.jsonc` in the entry point's
+	 * directory or its ancestors; `false` disables config file loading.
+	 */
+	readonly configFile?: string | false;
+}
+
+/**
+ * Options for packaging a built extension as a `.vsix` file.
+ *
+ * @example Building and packaging an extension
+ * ```ts
+ * import { bundleExtension, packageExtension } from "@vsce/bundler";
+ *
+ * const projectDir = "/path/to/extension";
+ * const bundle = await bundleExtension({ projectDir, minify: true });
+ * const vsix = await packageExtension({ projectDir, bundle });
+ * console.log(`${vsix.vsixPath}: ${vsix.files.length} files, ${vsix.size} bytes`);
+ * ```
+ */
+export interface PackageOptions {
+	/**
+	 * Absolute path to the extension project root. Every file in it that is
+	 * not excluded by `.vscodeignore` is packaged under `extension/`.
+	 */
+	readonly projectDir: string;
+
+	/**
+	 * Result of the build to package. Its bundles must be inside projectDir
+	 * and must not be excluded by `.vscodeignore`.
+	 */
+	readonly bundle?: BundleResult;
+
+	/**
+	 * Extension manifest (defaults to the contents of projectDir/package.json).
+	 * Requires `name`, `version`, `publisher` and `engines.vscode`.
+	 */
+	readonly manifest?: Record<string, unknown>;
+
+	/**
+	 * Path of the package to write, absolute or relative to projectDir
+	 * (defaults to `<name>-<version>.vsix`).
+	 */
+	readonly outFile?: string;
+}
+
+/**
+ * A file included in a `.vsix` package.
+ */
+export interface PackagedFile {
+	/** Path relative to the project root, using `/` separators. */
+	path: string;
+	/** Size in bytes. */
+	size: number;
+}
+
+/**
+ * Result of packaging an extension.
+ */
+export interface PackageResult {
+	/** Absolute path to the written `.vsix` file. */
+	vsixPath: string;
+	/** Size of the `.vsix` file in bytes. */
+	size: number;
+	/** Project files included under `extension/`, sorted by path. */
+	files: PackagedFile[];
+	/** Total size of the included files in bytes, before compression. */
+	unpackedSize: number;
+}
+
+/**
+ * Options for the manifest linter.
+ */
+export interface ManifestLintOptions {
+	/**
+	 * Entry point filename relative to the project (defaults to
+	 * "extension.ts"); the linter follows its module graph.
+	 */
+	readonly entryPoint?: string;
+}
+
+/**
+ * Options for rendering web compatibility issues as SARIF.
+ */
+export interface SarifOptions {
+	/**
+	 * Directory that artifact URIs are made relative to, typically the
+	 * repository root. GitHub code scanning requires repository-relative paths.
+	 * When omitted, absolute `file:` URIs are emitted.
+	 */
+	readonly baseDir?: string;
 }